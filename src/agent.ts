@@ -0,0 +1,267 @@
+import type { MarkerCell, MazeMarkers } from './maze/markerUtils';
+import type { SolveCell } from './solve';
+import { isOpenCell } from './maze/cellUtils';
+
+export type AgentId = 'left-hand' | 'right-hand' | 'tremaux';
+
+export interface AgentResult {
+  agent: AgentId;
+  found: boolean;
+  /** The wall follower came back to a state it already had, it will never reach the end */
+  looped: boolean;
+  /** Every position the agent stood on, revisits included */
+  walk: SolveCell[];
+  /** The walk with its detours cut out */
+  path: SolveCell[];
+  elapsedMs: number;
+}
+
+export interface AgentOptions {
+  /** Walk this one layer; needed on multi-layer mazes, agents cannot use holes or stairs */
+  layer?: number;
+  maxSteps?: number;
+}
+
+/**
+ * Agents only look at the cells around them, unlike the graph solvers
+ */
+export interface MazeAgent {
+  id: AgentId;
+  name: string;
+  run(data: number[][][], markers: MazeMarkers | null, options?: AgentOptions): AgentResult;
+}
+
+type Walker = (
+  layer: number[][],
+  start: MarkerCell,
+  end: MarkerCell,
+  maxSteps: number
+) => { walk: MarkerCell[]; found: boolean; looped: boolean };
+
+// Clockwise, starting north (increasing row)
+const HEADINGS = [
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+  [0, -1],
+];
+
+const sameCell = (a: MarkerCell, b: MarkerCell) => a.row === b.row && a.col === b.col;
+
+/**
+ * Keep a hand on one wall: try turning towards it first, then straight,
+ * then away from it, then back. The walk is deterministic, so seeing the
+ * same cell and heading twice means it loops around an island forever.
+ */
+function followWall(hand: 'left' | 'right'): Walker {
+  const turns = hand === 'left' ? [3, 0, 1, 2] : [1, 0, 3, 2];
+
+  return (layer, start, end, maxSteps) => {
+    const walk: MarkerCell[] = [start];
+    let heading = HEADINGS.findIndex(([dr, dc]) =>
+      isOpenCell(layer, start.row + dr, start.col + dc)
+    );
+    if (heading === -1) return { walk, found: sameCell(start, end), looped: false };
+
+    const seen = new Set<string>();
+    let cell = start;
+    while (walk.length <= maxSteps) {
+      if (sameCell(cell, end)) return { walk, found: true, looped: false };
+
+      const state = `${cell.row}:${cell.col}:${heading}`;
+      if (seen.has(state)) return { walk, found: false, looped: true };
+      seen.add(state);
+
+      for (const turn of turns) {
+        const next = (heading + turn) % 4;
+        const [dr, dc] = HEADINGS[next];
+        if (isOpenCell(layer, cell.row + dr, cell.col + dc)) {
+          heading = next;
+          cell = { row: cell.row + dr, col: cell.col + dc };
+          walk.push(cell);
+          break;
+        }
+      }
+    }
+    return { walk, found: false, looped: false };
+  };
+}
+
+/**
+ * Trémaux: mark every passage on the way through. A visited cell reached
+ * over a fresh passage is treated as a dead end; otherwise prefer unmarked
+ * passages, then once-marked ones. No passage is used more than twice.
+ */
+const tremaux: Walker = (layer, start, end, maxSteps) => {
+  const walk: MarkerCell[] = [start];
+  const marks = new Map<string, number>();
+  const visited = new Set<string>([`${start.row}:${start.col}`]);
+  const edgeKey = (a: MarkerCell, b: MarkerCell) =>
+    a.row < b.row || (a.row === b.row && a.col < b.col)
+      ? `${a.row}:${a.col}|${b.row}:${b.col}`
+      : `${b.row}:${b.col}|${a.row}:${a.col}`;
+  const marksOf = (a: MarkerCell, b: MarkerCell) => marks.get(edgeKey(a, b)) ?? 0;
+
+  let cell = start;
+  let previous: MarkerCell | null = null;
+  let revisit = false;
+  while (walk.length <= maxSteps) {
+    if (sameCell(cell, end)) return { walk, found: true, looped: false };
+
+    const exits = HEADINGS.map(([dr, dc]) => ({ row: cell.row + dr, col: cell.col + dc })).filter(
+      next => isOpenCell(layer, next.row, next.col)
+    );
+    const forward = exits.filter(next => !previous || !sameCell(next, previous));
+
+    let next: MarkerCell | null = null;
+    if (previous && revisit && marksOf(cell, previous) === 1) {
+      next = previous;
+    } else {
+      const fresh = forward.find(exit => marksOf(cell, exit) === 0);
+      const once = forward.find(exit => marksOf(cell, exit) === 1);
+      next = fresh ?? once ?? null;
+      if (!next && previous && marksOf(cell, previous) < 2) {
+        next = previous;
+      }
+    }
+    if (!next) break;
+
+    const key = edgeKey(cell, next);
+    marks.set(key, (marks.get(key) ?? 0) + 1);
+    previous = cell;
+    cell = next;
+    walk.push(cell);
+
+    const cellKey = `${cell.row}:${cell.col}`;
+    revisit = visited.has(cellKey);
+    visited.add(cellKey);
+  }
+  return { walk, found: false, looped: false };
+};
+
+/**
+ * Cut every detour out of a walk, leaving a simple path
+ */
+function reduceWalk(walk: SolveCell[]): SolveCell[] {
+  const path: SolveCell[] = [];
+  const indexOf = new Map<string, number>();
+  walk.forEach(cell => {
+    const key = `${cell.row}:${cell.col}`;
+    const index = indexOf.get(key);
+    if (index !== undefined) {
+      path.splice(index + 1).forEach(removed => indexOf.delete(`${removed.row}:${removed.col}`));
+      return;
+    }
+    indexOf.set(key, path.length);
+    path.push(cell);
+  });
+  return path;
+}
+
+function runWalker(
+  agent: AgentId,
+  walker: Walker,
+  data: number[][][],
+  markers: MazeMarkers | null,
+  options: AgentOptions
+): AgentResult {
+  const startTime = performance.now();
+  const result: AgentResult = {
+    agent,
+    found: false,
+    looped: false,
+    walk: [],
+    path: [],
+    elapsedMs: 0,
+  };
+
+  const layerIndex = options.layer ?? markers?.start?.layer ?? 0;
+  const layer = data[layerIndex];
+  const start = markers?.start ?? null;
+  const end = markers?.end ?? null;
+  // Agents never change layers, so the end must sit on the layer they walk
+  const singleLayer = options.layer !== undefined || data.length === 1;
+  if (
+    !singleLayer ||
+    (start?.layer ?? 0) !== layerIndex ||
+    (end?.layer ?? 0) !== layerIndex ||
+    !layer ||
+    layer.length === 0 ||
+    !start ||
+    !end ||
+    !isOpenCell(layer, start.row, start.col) ||
+    !isOpenCell(layer, end.row, end.col)
+  ) {
+    result.elapsedMs = performance.now() - startTime;
+    return result;
+  }
+
+  // Every passage is crossed at most twice by Trémaux, and a wall follower
+  // has at most four states per cell, so this only guards broken input
+  const maxSteps = options.maxSteps ?? layer.length * layer[0].length * 4;
+  const outcome = walker(
+    layer,
+    { row: start.row, col: start.col },
+    { row: end.row, col: end.col },
+    maxSteps
+  );
+
+  result.found = outcome.found;
+  result.looped = outcome.looped;
+  result.walk = outcome.walk.map(cell => ({ row: cell.row, col: cell.col, layer: layerIndex }));
+  if (result.found) {
+    result.path = reduceWalk(result.walk);
+  }
+  result.elapsedMs = performance.now() - startTime;
+  return result;
+}
+
+const AGENTS: MazeAgent[] = [
+  {
+    id: 'left-hand',
+    name: 'Wall Follower (left hand)',
+    run: (data, markers, options = {}) =>
+      runWalker('left-hand', followWall('left'), data, markers, options),
+  },
+  {
+    id: 'right-hand',
+    name: 'Wall Follower (right hand)',
+    run: (data, markers, options = {}) =>
+      runWalker('right-hand', followWall('right'), data, markers, options),
+  },
+  {
+    id: 'tremaux',
+    name: "Trémaux's Algorithm",
+    run: (data, markers, options = {}) => runWalker('tremaux', tremaux, data, markers, options),
+  },
+];
+
+/**
+ * List all registered agents in display order
+ */
+export function listAgents(): readonly MazeAgent[] {
+  return AGENTS;
+}
+
+/**
+ * Find an agent by id
+ */
+export function getAgent(id: string): MazeAgent | null {
+  return AGENTS.find(agent => agent.id === id) ?? null;
+}
+
+/**
+ * Run an agent by id
+ */
+export function runAgent(
+  id: string,
+  data: number[][][],
+  markers: MazeMarkers | null,
+  options: AgentOptions = {}
+): AgentResult {
+  const agent = getAgent(id);
+  if (!agent) {
+    throw new Error(`Unknown maze agent "${id}"`);
+  }
+  return agent.run(data, markers, options);
+}
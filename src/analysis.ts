@@ -0,0 +1,176 @@
+import type { MarkerCell, MazeMarkers } from './maze/markerUtils';
+import { NEIGHBOUR_OFFSETS, isOpenCell } from './maze/cellUtils';
+
+export interface MazeAnalysis {
+  openCells: number;
+  /** Cells with a single way out, start and end excluded */
+  deadEnds: MarkerCell[];
+  junctions: number;
+  /** Mean number of onward choices at a junction (exits minus the way in) */
+  branchingFactor: number;
+  components: number;
+  /** Independent cycles in the passage graph (edges - cells + components) */
+  loops: number;
+  /** Connected and free of loops: exactly one route between any two cells */
+  perfect: boolean;
+  /** Longest shortest route (diameter); exact for loop-free mazes, a lower bound otherwise */
+  longestPath: MarkerCell[];
+}
+
+export interface DeadEndFill {
+  /** Cells in the order they were filled */
+  filled: MarkerCell[];
+  /** Open cells left over; the solution in a perfect maze */
+  remaining: MarkerCell[];
+}
+
+export interface AnalysisOptions {
+  layer?: number;
+}
+
+function openNeighbours(layer: number[][], row: number, col: number): MarkerCell[] {
+  return NEIGHBOUR_OFFSETS.map(([dr, dc]) => ({ row: row + dr, col: col + dc })).filter(cell =>
+    isOpenCell(layer, cell.row, cell.col)
+  );
+}
+
+/**
+ * Whether the start or end marker sits on this cell of the layer
+ */
+function isMarkerCell(markers: MazeMarkers | null, layerIndex: number, cell: MarkerCell): boolean {
+  return [markers?.start, markers?.end].some(
+    marker =>
+      marker &&
+      (marker.layer ?? 0) === layerIndex &&
+      marker.row === cell.row &&
+      marker.col === cell.col
+  );
+}
+
+function forEachOpen(layer: number[][], callback: (row: number, col: number) => void): void {
+  layer.forEach((cells, row) => {
+    cells.forEach((value, col) => {
+      if (value !== 1) callback(row, col);
+    });
+  });
+}
+
+/**
+ * Breadth-first distances from one cell; returns the farthest cell and the parent links
+ */
+function farthestFrom(layer: number[][], origin: MarkerCell) {
+  const key = (cell: MarkerCell) => `${cell.row}:${cell.col}`;
+  const parent = new Map<string, MarkerCell | null>([[key(origin), null]]);
+  const queue: MarkerCell[] = [origin];
+  let farthest = origin;
+
+  for (let head = 0; head < queue.length; head += 1) {
+    const cell = queue[head];
+    farthest = cell;
+    openNeighbours(layer, cell.row, cell.col).forEach(next => {
+      if (parent.has(key(next))) return;
+      parent.set(key(next), cell);
+      queue.push(next);
+    });
+  }
+
+  const route: MarkerCell[] = [];
+  for (let cell: MarkerCell | null = farthest; cell; cell = parent.get(key(cell)) ?? null) {
+    route.push(cell);
+  }
+  return { farthest, route: route.reverse(), reached: parent };
+}
+
+/**
+ * Structural statistics of one layer: dead ends, junctions, loops and diameter
+ */
+export function analyzeMaze(
+  data: number[][][],
+  markers: MazeMarkers | null = null,
+  options: AnalysisOptions = {}
+): MazeAnalysis {
+  const layerIndex = options.layer ?? 0;
+  const layer = data[layerIndex] ?? [];
+  const withLayer = (cell: MarkerCell): MarkerCell => ({ ...cell, layer: layerIndex });
+
+  const analysis: MazeAnalysis = {
+    openCells: 0,
+    deadEnds: [],
+    junctions: 0,
+    branchingFactor: 0,
+    components: 0,
+    loops: 0,
+    perfect: false,
+    longestPath: [],
+  };
+
+  let edges = 0;
+  let choices = 0;
+  forEachOpen(layer, (row, col) => {
+    const degree = openNeighbours(layer, row, col).length;
+    analysis.openCells += 1;
+    edges += degree;
+    if (degree === 1 && !isMarkerCell(markers, layerIndex, { row, col })) {
+      analysis.deadEnds.push(withLayer({ row, col }));
+    }
+    if (degree >= 3) {
+      analysis.junctions += 1;
+      choices += degree - 1;
+    }
+  });
+  edges /= 2;
+  analysis.branchingFactor = analysis.junctions > 0 ? choices / analysis.junctions : 0;
+
+  // Double sweep per component: the farthest cell from anywhere is one end of the diameter
+  const seen = new Set<string>();
+  forEachOpen(layer, (row, col) => {
+    if (seen.has(`${row}:${col}`)) return;
+    analysis.components += 1;
+    const first = farthestFrom(layer, { row, col });
+    first.reached.forEach((_, key) => seen.add(key));
+    const second = farthestFrom(layer, first.farthest);
+    if (second.route.length > analysis.longestPath.length) {
+      analysis.longestPath = second.route.map(withLayer);
+    }
+  });
+
+  analysis.loops = edges - analysis.openCells + analysis.components;
+  analysis.perfect = analysis.components === 1 && analysis.loops === 0;
+  return analysis;
+}
+
+/**
+ * Dead-end filling: repeatedly wall up dead ends other than the markers.
+ * What stays open are the cells that lie between start and end (plus any loops).
+ */
+export function fillDeadEnds(
+  data: number[][][],
+  markers: MazeMarkers | null,
+  options: AnalysisOptions = {}
+): DeadEndFill {
+  const layerIndex = options.layer ?? 0;
+  const source = data[layerIndex] ?? [];
+  const layer = source.map(row => [...row]);
+  const withLayer = (cell: MarkerCell): MarkerCell => ({ ...cell, layer: layerIndex });
+
+  const filled: MarkerCell[] = [];
+  const queue: MarkerCell[] = [];
+  forEachOpen(layer, (row, col) => {
+    if (openNeighbours(layer, row, col).length <= 1) queue.push({ row, col });
+  });
+
+  for (let head = 0; head < queue.length; head += 1) {
+    const cell = queue[head];
+    if (!isOpenCell(layer, cell.row, cell.col) || isMarkerCell(markers, layerIndex, cell)) continue;
+    const neighbours = openNeighbours(layer, cell.row, cell.col);
+    if (neighbours.length > 1) continue;
+
+    layer[cell.row][cell.col] = 1;
+    filled.push(withLayer(cell));
+    neighbours.forEach(next => queue.push(next));
+  }
+
+  const remaining: MarkerCell[] = [];
+  forEachOpen(layer, (row, col) => remaining.push(withLayer({ row, col })));
+  return { filled, remaining };
+}
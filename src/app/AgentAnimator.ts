@@ -0,0 +1,124 @@
+import { PlaybackController, PlaybackState } from './PlaybackController';
+import type { AgentResult } from '../agent';
+import type { SolveCell } from '../solve';
+import type { PathCell } from '../maze/Maze';
+import type { SolverAnimationTarget } from './SolverAnimator';
+
+/**
+ * Scene hooks for agent playback, on top of the solver ones
+ */
+export interface AgentAnimationTarget extends SolverAnimationTarget {
+  showAgent(cell: PathCell): void;
+  clearAgent(): void;
+}
+
+export interface AgentAnimatorConfig {
+  result: AgentResult;
+  stepsPerSecond?: number;
+  onStateChange?: (state: PlaybackState) => void;
+  /** Another maze was loaded mid-walk; playback has stopped without drawing */
+  onStale?: () => void;
+}
+
+/**
+ * AgentAnimator - Walks the avatar along an agent's walk one move per step,
+ * leaving a trail of visited cells; the reduced path appears on arrival.
+ */
+export class AgentAnimator {
+  private target: AgentAnimationTarget;
+  private result: AgentResult;
+  private playback: PlaybackController;
+  private trail: SolveCell[] = [];
+  private trailKeys: Set<string> = new Set();
+  private applied: number = -1;
+  private documentVersion: number;
+  private onStale?: () => void;
+
+  constructor(target: AgentAnimationTarget, config: AgentAnimatorConfig) {
+    this.target = target;
+    this.result = config.result;
+    this.documentVersion = target.getDocumentVersion();
+    this.onStale = config.onStale;
+
+    this.playback = new PlaybackController({
+      totalSteps: Math.max(0, this.result.walk.length - 1),
+      stepsPerSecond: config.stepsPerSecond,
+      onUpdate: index => this.applyUntil(index),
+      onStateChange: config.onStateChange,
+    });
+
+    this.target.clearSolutionPath();
+    this.target.clearCellTints();
+    this.applyUntil(0);
+  }
+
+  public play(): void {
+    this.playback.play();
+  }
+
+  public toggle(): void {
+    this.playback.toggle();
+  }
+
+  public step(): void {
+    this.playback.step();
+  }
+
+  public finish(): void {
+    this.playback.finish();
+  }
+
+  public setSpeed(stepsPerSecond: number): void {
+    this.playback.setSpeed(stepsPerSecond);
+  }
+
+  public getState(): PlaybackState {
+    return this.playback.getState();
+  }
+
+  /**
+   * Stop playback and remove the avatar and everything it drew
+   */
+  public destroy(): void {
+    this.playback.destroy();
+    this.target.clearAgent();
+    this.target.clearCellTints();
+    this.target.clearSolutionPath();
+    this.target.setPreviewOverlay(null);
+  }
+
+  private applyUntil(index: number): void {
+    // The walk went through the old maze's passages, it may cross walls in the new one
+    if (this.target.getDocumentVersion() !== this.documentVersion) {
+      this.playback.destroy();
+      this.onStale?.();
+      return;
+    }
+
+    const walk = this.result.walk;
+    if (walk.length === 0) return;
+
+    for (; this.applied < index; this.applied += 1) {
+      const cell = walk[this.applied + 1];
+      const key = `${cell.layer}:${cell.row}:${cell.col}`;
+      if (!this.trailKeys.has(key)) {
+        this.trailKeys.add(key);
+        this.trail.push(cell);
+        this.target.setCellTint(cell, 'visited');
+      }
+    }
+
+    const current = walk[index];
+    this.target.showAgent(current);
+
+    const arrived = this.result.found && index >= walk.length - 1;
+    if (arrived) {
+      this.target.showSolutionPath(this.result.path);
+    }
+    this.target.setPreviewOverlay({
+      visited: this.trail,
+      frontier: [current],
+      path: arrived ? this.result.path : [],
+    });
+  }
+}
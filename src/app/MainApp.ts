@@ -2,9 +2,21 @@ import { SingleLayerMaze } from '../maze/SingleLayerMaze';
 import { MultiLayerMaze } from '../maze/MultiLayerMaze';
 import { Toolbar } from '../sidebar/toolbar';
 import { GUIController } from '../gui';
-import { PreviewWindow } from '../preview/PreviewWindow';
+import { PreviewWindow, PreviewOverlay } from '../preview/PreviewWindow';
 import type { MazeController } from '../maze/MazeController';
-import { computeMarkersFromLayer } from '../maze/markerUtils';
+import type { PathCell } from '../maze/Maze';
+import type { CellTint } from '../resources/MeshFactory';
+import type { MarkerCell, MazeMarkers } from '../maze/markerUtils';
+import { validateMaze } from '../maze/validateMaze';
+import type { MazeFileSettings } from '../maze/mazeFile';
+import { mazeToSTL } from '../maze/mazeSolid';
+import {
+  MazeDocument,
+  createMazeDocument,
+  documentToGrid,
+  getDocumentMarkers,
+  withCells,
+} from '../maze/MazeDocument';
 
 /**
  * MainApp - Application entry point & lifecycle manager
@@ -23,10 +35,8 @@ export class MainApp implements MazeController {
   private readonly debugUpdateIntervalMs: number = 250;
   private renderCount: number = 0;
   private renderListener: () => void;
-  private previewMarkers: {
-    start: { row: number; col: number } | null;
-    end: { row: number; col: number } | null;
-  } | null = null;
+  private mazeDocument: MazeDocument;
+  private documentVersion: number = 0;
   private isDebugOverlayVisible: boolean = true;
   private isPreviewVisible: boolean = true;
   private isPreviewClosed: boolean = false;
@@ -44,8 +54,7 @@ export class MainApp implements MazeController {
 
     // Create initial maze
     this.maze = this.createInitialMaze();
-    const initialData = this.maze.getMazeData();
-    this.previewMarkers = computeMarkersFromLayer(initialData?.[0]);
+    this.mazeDocument = createMazeDocument(this.maze.getMazeData());
 
     // Initialize GUI
     this.guiController = new GUIController(this, {
@@ -153,10 +162,28 @@ export class MainApp implements MazeController {
     newMaze: number[][][],
     multiLayer: boolean = false,
     markers?: {
-      start?: { row: number; col: number } | null;
-      end?: { row: number; col: number } | null;
-    }
+      start?: MarkerCell | null;
+      end?: MarkerCell | null;
+    },
+    seed: number | null = null
+  ): void {
+    this.loadDocument(createMazeDocument(newMaze, markers, { seed }), multiLayer);
+  }
+
+  /**
+   * Replace the current maze with a document
+   */
+  public loadDocument(
+    document: MazeDocument,
+    multiLayer: boolean = document.layers.length > 1
   ): void {
+    const newMaze = documentToGrid(document);
+    const validation = validateMaze(newMaze);
+    if (!validation.valid) {
+      console.warn('Rejected invalid maze data:', validation.errors);
+      return;
+    }
+
     const canReuseSingle = !multiLayer && this.maze instanceof SingleLayerMaze;
     const canReuseMulti = multiLayer && this.maze instanceof MultiLayerMaze;
 
@@ -181,30 +208,87 @@ export class MainApp implements MazeController {
       this.maze.addRenderListener(this.renderListener);
     }
 
-    if (markers) {
-      this.previewMarkers = { start: markers.start ?? null, end: markers.end ?? null };
-    } else {
-      const currentData = this.maze.getMazeData();
-      this.previewMarkers = computeMarkersFromLayer(currentData?.[0]);
-    }
+    this.mazeDocument = document;
+    this.documentVersion += 1;
 
     // Update preview
     this.updatePreview();
   }
 
+  /**
+   * Bumped whenever another document is loaded, so playback can tell its maze was replaced
+   */
+  public getDocumentVersion(): number {
+    return this.documentVersion;
+  }
+
+  /**
+   * Show an intermediate frame (e.g. generation playback) on the current maze.
+   * Keeps markers, seed and camera; the maze type must already match the frame.
+   * Returns false without drawing when `version` is given and another document was loaded since.
+   */
+  public showMazeFrame(frame: number[][][], version?: number): boolean {
+    if (version !== undefined && version !== this.documentVersion) return false;
+    this.maze.updateMazeCells(frame);
+    this.mazeDocument = withCells(this.mazeDocument, frame);
+    this.updatePreview();
+    return true;
+  }
+
+  /**
+   * Draw a solution route in the 3D scene
+   */
+  public showSolutionPath(cells: PathCell[]): void {
+    this.maze.showPath(cells);
+  }
+
+  /**
+   * Remove the solution route from the 3D scene
+   */
+  public clearSolutionPath(): void {
+    this.maze.clearPath();
+  }
+
+  /**
+   * Tint a cell in the 3D scene (solver exploration)
+   */
+  public setCellTint(cell: PathCell, tint: CellTint | null): void {
+    this.maze.setCellTint(cell, tint);
+  }
+
+  /**
+   * Remove all cell tints from the 3D scene
+   */
+  public clearCellTints(): void {
+    this.maze.clearCellTints();
+  }
+
+  /**
+   * Move the agent avatar onto a cell in the 3D scene
+   */
+  public showAgent(cell: PathCell): void {
+    this.maze.setAvatar(cell);
+  }
+
+  /**
+   * Remove the agent avatar from the 3D scene
+   */
+  public clearAgent(): void {
+    this.maze.clearAvatar();
+  }
+
+  /**
+   * Paint an overlay on the 2D preview, null removes it
+   */
+  public setPreviewOverlay(overlay: PreviewOverlay | null): void {
+    this.previewWindow?.setOverlay(overlay);
+  }
+
   /**
    * Update preview window with current maze data
    */
   private updatePreview(): void {
-    // Get first layer of maze for 2D preview
-    const mazeData = this.maze['maze'];
-    if (mazeData && mazeData.length > 0) {
-      if (this.previewMarkers) {
-        this.previewWindow?.updateMaze(mazeData[0], this.previewMarkers);
-      } else {
-        this.previewWindow?.updateMaze(mazeData[0]);
-      }
-    }
+    this.previewWindow?.showDocument(this.mazeDocument);
   }
 
   /**
@@ -276,10 +360,76 @@ export class MainApp implements MazeController {
     return this.maze.getMazeData();
   }
 
-  public getMazeMarkers():
-    | { start: { row: number; col: number } | null; end: { row: number; col: number } | null }
-    | null {
-    return this.previewMarkers ? { ...this.previewMarkers } : null;
+  public getMazeMarkers(): MazeMarkers {
+    return getDocumentMarkers(this.mazeDocument);
+  }
+
+  /**
+   * Seed of the current maze if it was generated, null for hand-made mazes
+   */
+  public getMazeSeed(): number | null {
+    return this.mazeDocument.metadata.seed;
+  }
+
+  /**
+   * Current maze with markers and metadata
+   */
+  public getMazeDocument(): MazeDocument {
+    return this.mazeDocument;
+  }
+
+  /**
+   * Walls and floors as a binary glTF (GLB) file
+   */
+  public exportGLB(): Promise<ArrayBuffer> {
+    return this.maze.exportGLB();
+  }
+
+  /**
+   * Closed single-piece STL for 3D printing, sized by the maze config times `scale`
+   */
+  public exportSTL(scale: number = 1): ArrayBuffer {
+    return mazeToSTL(this.maze.getMazeData(), { ...this.maze.getMazeConfig(), scale });
+  }
+
+  /**
+   * Scene appearance as saved in maze files
+   */
+  public getSceneSettings(): MazeFileSettings {
+    const { backgroundColor, wallColor, floorColor, wallOpacity, floorOpacity, showEdges } =
+      this.guiController.settings;
+    return { backgroundColor, wallColor, floorColor, wallOpacity, floorOpacity, showEdges };
+  }
+
+  /**
+   * Apply saved scene appearance to the maze and keep the GUI panel in sync
+   */
+  public applySceneSettings(settings: Partial<MazeFileSettings>): void {
+    const gui = this.guiController;
+    if (settings.backgroundColor !== undefined) {
+      gui.updateSetting('backgroundColor', settings.backgroundColor);
+      this.applyGUISettings();
+    }
+    if (settings.wallColor !== undefined) {
+      gui.updateSetting('wallColor', settings.wallColor);
+      this.updateWallColor(settings.wallColor);
+    }
+    if (settings.floorColor !== undefined) {
+      gui.updateSetting('floorColor', settings.floorColor);
+      this.updateFloorColor(settings.floorColor);
+    }
+    if (settings.wallOpacity !== undefined) {
+      gui.updateSetting('wallOpacity', settings.wallOpacity);
+      this.updateWallOpacity(settings.wallOpacity);
+    }
+    if (settings.floorOpacity !== undefined) {
+      gui.updateSetting('floorOpacity', settings.floorOpacity);
+      this.updateFloorOpacity(settings.floorOpacity);
+    }
+    if (settings.showEdges !== undefined) {
+      gui.updateSetting('showEdges', settings.showEdges);
+      this.toggleEdges(settings.showEdges);
+    }
   }
 
   public updateWallColor(color: string): void {
@@ -0,0 +1,129 @@
+export interface PlaybackState {
+  index: number;
+  total: number;
+  playing: boolean;
+}
+
+export interface PlaybackConfig {
+  totalSteps: number;
+  stepsPerSecond?: number;
+  onUpdate: (index: number) => void;
+  onStateChange?: (state: PlaybackState) => void;
+}
+
+/**
+ * PlaybackController - Time-based stepping through a recorded sequence
+ * Drives play/pause/step/speed; consumers render the state at each index
+ */
+export class PlaybackController {
+  private index: number = 0;
+  private readonly total: number;
+  private stepsPerSecond: number;
+  private playing: boolean = false;
+  private rafId: number | null = null;
+  private lastTime: number = 0;
+  private pending: number = 0;
+  private onUpdate: (index: number) => void;
+  private onStateChange?: (state: PlaybackState) => void;
+
+  constructor(config: PlaybackConfig) {
+    this.total = Math.max(0, config.totalSteps);
+    this.stepsPerSecond = Math.max(1, config.stepsPerSecond ?? 60);
+    this.onUpdate = config.onUpdate;
+    this.onStateChange = config.onStateChange;
+  }
+
+  public play(): void {
+    if (this.playing || this.index >= this.total) return;
+    this.playing = true;
+    this.lastTime = performance.now();
+    this.pending = 0;
+    this.rafId = window.requestAnimationFrame(now => this.tick(now));
+    this.emitState();
+  }
+
+  public pause(): void {
+    if (!this.playing) return;
+    this.playing = false;
+    this.cancelFrame();
+    this.emitState();
+  }
+
+  public toggle(): void {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Advance a single step (pauses playback)
+   */
+  public step(): void {
+    this.pause();
+    this.seek(this.index + 1);
+  }
+
+  /**
+   * Jump to the last step (pauses playback)
+   */
+  public finish(): void {
+    this.pause();
+    this.seek(this.total);
+  }
+
+  public setSpeed(stepsPerSecond: number): void {
+    this.stepsPerSecond = Math.max(1, stepsPerSecond);
+  }
+
+  public getState(): PlaybackState {
+    return { index: this.index, total: this.total, playing: this.playing };
+  }
+
+  public destroy(): void {
+    this.playing = false;
+    this.cancelFrame();
+  }
+
+  private tick(now: number): void {
+    if (!this.playing) return;
+
+    this.pending += ((now - this.lastTime) / 1000) * this.stepsPerSecond;
+    this.lastTime = now;
+
+    const advance = Math.floor(this.pending);
+    if (advance > 0) {
+      this.pending -= advance;
+      this.seek(this.index + advance);
+    }
+
+    if (this.index >= this.total) {
+      this.playing = false;
+      this.rafId = null;
+      this.emitState();
+      return;
+    }
+
+    this.rafId = window.requestAnimationFrame(next => this.tick(next));
+  }
+
+  private seek(index: number): void {
+    const next = Math.max(0, Math.min(this.total, index));
+    if (next === this.index) return;
+    this.index = next;
+    this.onUpdate(this.index);
+    this.emitState();
+  }
+
+  private cancelFrame(): void {
+    if (this.rafId !== null) {
+      window.cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+  }
+
+  private emitState(): void {
+    this.onStateChange?.(this.getState());
+  }
+}
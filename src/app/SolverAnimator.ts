@@ -0,0 +1,145 @@
+import { PlaybackController, PlaybackState } from './PlaybackController';
+import type { SolveCell, SolveResult } from '../solve';
+import type { PathCell } from '../maze/Maze';
+import type { CellTint } from '../resources/MeshFactory';
+import type { PreviewOverlay } from '../preview/PreviewWindow';
+
+/**
+ * Scene hooks the animator drives; MainApp implements all of them
+ */
+export interface SolverAnimationTarget {
+  setCellTint(cell: PathCell, tint: CellTint | null): void;
+  clearCellTints(): void;
+  showSolutionPath(cells: PathCell[]): void;
+  clearSolutionPath(): void;
+  setPreviewOverlay(overlay: PreviewOverlay | null): void;
+  getDocumentVersion(): number;
+}
+
+export interface SolverAnimatorConfig {
+  result: SolveResult;
+  stepsPerSecond?: number;
+  onStateChange?: (state: PlaybackState) => void;
+  /** Another maze was loaded mid-animation; playback has stopped without drawing */
+  onStale?: () => void;
+}
+
+const cellKey = (cell: SolveCell) => `${cell.layer}:${cell.row}:${cell.col}`;
+
+/**
+ * SolverAnimator - Replays a solver trace: expanded cells turn visited,
+ * discovered cells join the frontier, then the path is traced cell by cell.
+ * Only tints and the path overlay change, wall meshes are left untouched.
+ */
+export class SolverAnimator {
+  private target: SolverAnimationTarget;
+  private result: SolveResult;
+  private playback: PlaybackController;
+  private visited: SolveCell[] = [];
+  private visitedKeys: Set<string> = new Set();
+  private frontier: Map<string, SolveCell> = new Map();
+  private applied: number = 0;
+  private documentVersion: number;
+  private onStale?: () => void;
+
+  constructor(target: SolverAnimationTarget, config: SolverAnimatorConfig) {
+    this.target = target;
+    this.result = config.result;
+    this.documentVersion = target.getDocumentVersion();
+    this.onStale = config.onStale;
+
+    const trace = this.result.trace ?? [];
+    this.playback = new PlaybackController({
+      totalSteps: trace.length + this.result.path.length,
+      stepsPerSecond: config.stepsPerSecond,
+      onUpdate: index => this.applyUntil(index),
+      onStateChange: config.onStateChange,
+    });
+
+    this.target.clearSolutionPath();
+    this.target.clearCellTints();
+    if (trace.length > 0) {
+      this.addFrontier(trace[0].cell);
+    }
+    this.syncPreview(0);
+  }
+
+  public play(): void {
+    this.playback.play();
+  }
+
+  public toggle(): void {
+    this.playback.toggle();
+  }
+
+  public step(): void {
+    this.playback.step();
+  }
+
+  public finish(): void {
+    this.playback.finish();
+  }
+
+  public setSpeed(stepsPerSecond: number): void {
+    this.playback.setSpeed(stepsPerSecond);
+  }
+
+  public getState(): PlaybackState {
+    return this.playback.getState();
+  }
+
+  /**
+   * Stop playback and remove everything the animation drew
+   */
+  public destroy(): void {
+    this.playback.destroy();
+    this.target.clearCellTints();
+    this.target.clearSolutionPath();
+    this.target.setPreviewOverlay(null);
+  }
+
+  private applyUntil(index: number): void {
+    // The trace belongs to the maze it was solved on, never paint it over another one
+    if (this.target.getDocumentVersion() !== this.documentVersion) {
+      this.playback.destroy();
+      this.onStale?.();
+      return;
+    }
+
+    const trace = this.result.trace ?? [];
+    const exploreUntil = Math.min(index, trace.length);
+
+    for (; this.applied < exploreUntil; this.applied += 1) {
+      const { cell, discovered } = trace[this.applied];
+      const key = cellKey(cell);
+      this.frontier.delete(key);
+      if (!this.visitedKeys.has(key)) {
+        this.visitedKeys.add(key);
+        this.visited.push(cell);
+        this.target.setCellTint(cell, 'visited');
+      }
+      discovered.forEach(next => this.addFrontier(next));
+    }
+
+    const pathCount = Math.max(0, index - trace.length);
+    if (pathCount > 0) {
+      this.target.showSolutionPath(this.result.path.slice(0, pathCount));
+    }
+    this.syncPreview(pathCount);
+  }
+
+  private addFrontier(cell: SolveCell): void {
+    const key = cellKey(cell);
+    if (this.visitedKeys.has(key) || this.frontier.has(key)) return;
+    this.frontier.set(key, cell);
+    this.target.setCellTint(cell, 'frontier');
+  }
+
+  private syncPreview(pathCount: number): void {
+    this.target.setPreviewOverlay({
+      visited: this.visited,
+      frontier: Array.from(this.frontier.values()),
+      path: this.result.path.slice(0, pathCount),
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import type { MazeMarkers } from './maze/markerUtils';
+import { listSolvers } from './solve';
+import { generateMaze, listGenerators } from './generator';
+import { SeededRandom } from './generator/SeededRandom';
+
+/**
+ * One solver run; generator and seed are null for the current maze
+ */
+export interface BenchmarkRow {
+  generator: string | null;
+  seed: number | null;
+  solver: string;
+  found: boolean;
+  pathLength: number;
+  nodesExpanded: number;
+  elapsedMs: number;
+}
+
+export interface SolverBenchmarkOptions {
+  /** Runs per solver, the reported time is the mean */
+  repeats?: number;
+}
+
+export interface GeneratorBenchmarkOptions extends SolverBenchmarkOptions {
+  rows: number;
+  cols: number;
+  layers?: number;
+  /** Explicit seeds, or a count of seeds derived from baseSeed */
+  seeds: number[] | number;
+  baseSeed?: number;
+  generators?: string[];
+}
+
+const CSV_COLUMNS: (keyof BenchmarkRow)[] = [
+  'generator',
+  'seed',
+  'solver',
+  'found',
+  'pathLength',
+  'nodesExpanded',
+  'elapsedMs',
+];
+
+/**
+ * Run every registered solver on one maze.
+ * Pure data in and out, so it runs without a DOM or WebGL context.
+ */
+export function benchmarkSolvers(
+  data: number[][][],
+  markers: MazeMarkers | null,
+  options: SolverBenchmarkOptions = {}
+): BenchmarkRow[] {
+  const repeats = Math.max(1, Math.floor(options.repeats ?? 1));
+
+  return listSolvers().map(solver => {
+    let result = solver.solve(data, markers);
+    let totalMs = result.elapsedMs;
+    for (let run = 1; run < repeats; run += 1) {
+      result = solver.solve(data, markers);
+      totalMs += result.elapsedMs;
+    }
+
+    return {
+      generator: null,
+      seed: null,
+      solver: solver.id,
+      found: result.found,
+      pathLength: result.path.length,
+      nodesExpanded: result.nodesExpanded,
+      elapsedMs: totalMs / repeats,
+    };
+  });
+}
+
+/**
+ * Generate a maze per generator and seed, then benchmark every solver on it
+ */
+export function benchmarkGenerators(options: GeneratorBenchmarkOptions): BenchmarkRow[] {
+  const base = new SeededRandom(options.baseSeed);
+  const seeds = Array.isArray(options.seeds)
+    ? options.seeds
+    : Array.from(
+        { length: Math.max(0, Math.floor(options.seeds)) },
+        (_, index) => base.fork(index).seed
+      );
+  const generators = options.generators ?? listGenerators().map(generator => generator.id);
+
+  const rows: BenchmarkRow[] = [];
+  generators.forEach(generatorId => {
+    seeds.forEach(seed => {
+      const maze = generateMaze(generatorId, {
+        rows: options.rows,
+        cols: options.cols,
+        layers: options.layers,
+        seed,
+      });
+      benchmarkSolvers(maze.data, maze.markers, options).forEach(row => {
+        rows.push({ ...row, generator: generatorId, seed: maze.seed });
+      });
+    });
+  });
+  return rows;
+}
+
+/**
+ * Serialize benchmark rows as CSV with a header line
+ */
+export function benchmarkToCSV(rows: BenchmarkRow[]): string {
+  const lines = rows.map(row =>
+    CSV_COLUMNS.map(column => {
+      const value = row[column];
+      if (value === null) return '';
+      if (column === 'elapsedMs') return (value as number).toFixed(3);
+      return String(value);
+    }).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...lines].join('\n');
+}
+
+/**
+ * Serialize benchmark rows as pretty-printed JSON
+ */
+export function benchmarkToJSON(rows: BenchmarkRow[]): string {
+  return JSON.stringify(rows, null, 2);
+}
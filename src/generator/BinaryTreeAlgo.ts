@@ -0,0 +1,112 @@
+import {
+  GeneratedMaze,
+  GeneratorOptions,
+  GridCell,
+  WALL,
+  carvePassage,
+  createFilledGrid,
+  openBoundaryMarkers,
+  toOddSize,
+} from './gridUtils';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Diagonal the maze leans towards. North is the increasing row direction,
+ * which the preview draws at the top.
+ */
+export type BinaryTreeBias = 'NE' | 'NW' | 'SE' | 'SW';
+
+export interface BinaryTreeOptions extends GeneratorOptions {
+  bias?: BinaryTreeBias;
+}
+
+interface BiasSteps {
+  rowStep: number;
+  colStep: number;
+}
+
+function getBiasSteps(bias: BinaryTreeBias = 'NE'): BiasSteps {
+  return {
+    rowStep: bias[0] === 'N' ? 2 : -2,
+    colStep: bias[1] === 'E' ? 2 : -2,
+  };
+}
+
+function isInside(cell: GridCell, rows: number, cols: number): boolean {
+  return cell.row > 0 && cell.row < rows - 1 && cell.col > 0 && cell.col < cols - 1;
+}
+
+/**
+ * Binary Tree - every cell opens towards one of the two bias directions,
+ * leaving two unbroken corridors along the biased edges
+ */
+export function generateBinaryTree(options: BinaryTreeOptions): GeneratedMaze {
+  const rows = toOddSize(options.rows);
+  const cols = toOddSize(options.cols);
+  const random = new SeededRandom(options.seed);
+  const grid = createFilledGrid(rows, cols, WALL);
+  const { rowStep, colStep } = getBiasSteps(options.bias);
+
+  for (let row = 1; row < rows - 1; row += 2) {
+    for (let col = 1; col < cols - 1; col += 2) {
+      const cell = { row, col };
+      const candidates = [
+        { row: row + rowStep, col },
+        { row, col: col + colStep },
+      ].filter(next => isInside(next, rows, cols));
+
+      if (candidates.length === 0) {
+        carvePassage(grid, cell, cell, options.onStep);
+        continue;
+      }
+      const next = random.pick(candidates);
+      carvePassage(grid, cell, next, options.onStep);
+    }
+  }
+
+  const markers = openBoundaryMarkers(grid, options.onStep);
+  return { data: [grid], markers, seed: random.seed };
+}
+
+/**
+ * Sidewinder - carves horizontal runs along the bias direction and closes
+ * each run with a single vertical opening from one of its cells
+ */
+export function generateSidewinder(options: BinaryTreeOptions): GeneratedMaze {
+  const rows = toOddSize(options.rows);
+  const cols = toOddSize(options.cols);
+  const random = new SeededRandom(options.seed);
+  const grid = createFilledGrid(rows, cols, WALL);
+  const { rowStep, colStep } = getBiasSteps(options.bias);
+
+  const firstCol = colStep > 0 ? 1 : cols - 2;
+  const lastCol = colStep > 0 ? cols - 2 : 1;
+  const edgeRow = rowStep > 0 ? rows - 2 : 1;
+
+  for (let row = 1; row < rows - 1; row += 2) {
+    let run: GridCell[] = [];
+    for (let col = firstCol; col !== lastCol + colStep; col += colStep) {
+      const cell = { row, col };
+      carvePassage(grid, cell, cell, options.onStep);
+      run.push(cell);
+
+      const atRunEdge = col === lastCol;
+      const atVerticalEdge = row === edgeRow;
+      const closeRun = atRunEdge || (!atVerticalEdge && random.next() < 0.5);
+
+      if (!closeRun) {
+        carvePassage(grid, cell, { row, col: col + colStep }, options.onStep);
+        continue;
+      }
+
+      if (!atVerticalEdge) {
+        const member = random.pick(run);
+        carvePassage(grid, member, { row: member.row + rowStep, col: member.col }, options.onStep);
+      }
+      run = [];
+    }
+  }
+
+  const markers = openBoundaryMarkers(grid, options.onStep);
+  return { data: [grid], markers, seed: random.seed };
+}
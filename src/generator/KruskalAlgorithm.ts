@@ -0,0 +1,106 @@
+import {
+  GeneratedMaze,
+  GeneratorOptions,
+  GridCell,
+  PATH,
+  WALL,
+  carvePassage,
+  createFilledGrid,
+  openBoundaryMarkers,
+  setCell,
+  toOddSize,
+} from './gridUtils';
+import { SeededRandom } from './SeededRandom';
+
+interface CellEdge {
+  from: GridCell;
+  to: GridCell;
+}
+
+/**
+ * DisjointSet - union-find with path compression and union by rank
+ */
+class DisjointSet {
+  private parent: Int32Array;
+  private rank: Uint8Array;
+
+  constructor(size: number) {
+    this.parent = new Int32Array(size);
+    this.rank = new Uint8Array(size);
+    for (let i = 0; i < size; i += 1) {
+      this.parent[i] = i;
+    }
+  }
+
+  find(index: number): number {
+    let root = index;
+    while (this.parent[root] !== root) {
+      root = this.parent[root];
+    }
+    while (this.parent[index] !== root) {
+      const next = this.parent[index];
+      this.parent[index] = root;
+      index = next;
+    }
+    return root;
+  }
+
+  union(a: number, b: number): boolean {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA === rootB) return false;
+
+    if (this.rank[rootA] < this.rank[rootB]) {
+      this.parent[rootA] = rootB;
+    } else if (this.rank[rootA] > this.rank[rootB]) {
+      this.parent[rootB] = rootA;
+    } else {
+      this.parent[rootB] = rootA;
+      this.rank[rootA] += 1;
+    }
+    return true;
+  }
+}
+
+/**
+ * Randomized Kruskal - joins cells along a shuffled edge list,
+ * skipping any edge whose cells already share a set
+ */
+export function generateKruskal(options: GeneratorOptions): GeneratedMaze {
+  const rows = toOddSize(options.rows);
+  const cols = toOddSize(options.cols);
+  const random = new SeededRandom(options.seed);
+  const grid = createFilledGrid(rows, cols, WALL);
+
+  const cellRows = (rows - 1) / 2;
+  const cellCols = (cols - 1) / 2;
+  const indexOf = (cell: GridCell) => ((cell.row - 1) / 2) * cellCols + (cell.col - 1) / 2;
+
+  const edges: CellEdge[] = [];
+  for (let row = 1; row < rows - 1; row += 2) {
+    for (let col = 1; col < cols - 1; col += 2) {
+      setCell(grid, row, col, PATH, options.onStep);
+      if (col + 2 < cols - 1) {
+        edges.push({ from: { row, col }, to: { row, col: col + 2 } });
+      }
+      if (row + 2 < rows - 1) {
+        edges.push({ from: { row, col }, to: { row: row + 2, col } });
+      }
+    }
+  }
+
+  random.shuffle(edges);
+
+  const sets = new DisjointSet(cellRows * cellCols);
+  let remaining = cellRows * cellCols - 1;
+  for (const edge of edges) {
+    if (remaining === 0) break;
+    if (sets.union(indexOf(edge.from), indexOf(edge.to))) {
+      carvePassage(grid, edge.from, edge.to, options.onStep);
+      remaining -= 1;
+    }
+  }
+
+  const markers = openBoundaryMarkers(grid, options.onStep);
+  return { data: [grid], markers, seed: random.seed };
+}
@@ -0,0 +1,62 @@
+import {
+  GeneratedMaze,
+  GeneratorOptions,
+  GridCell,
+  WALL,
+  carvePassage,
+  createFilledGrid,
+  getCellNeighbors,
+  openBoundaryMarkers,
+  toOddSize,
+} from './gridUtils';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Randomized Prim - grows the maze from one cell by repeatedly
+ * picking a random frontier cell and joining it to a carved neighbour
+ */
+export function generatePrim(options: GeneratorOptions): GeneratedMaze {
+  const rows = toOddSize(options.rows);
+  const cols = toOddSize(options.cols);
+  const random = new SeededRandom(options.seed);
+  const grid = createFilledGrid(rows, cols, WALL);
+
+  // 0 = untouched, 1 = in frontier, 2 = part of the maze
+  const state = createFilledGrid(rows, cols, 0);
+  const frontier: GridCell[] = [];
+
+  const addToMaze = (cell: GridCell) => {
+    state[cell.row][cell.col] = 2;
+    for (const neighbor of getCellNeighbors(cell, rows, cols)) {
+      if (state[neighbor.row][neighbor.col] === 0) {
+        state[neighbor.row][neighbor.col] = 1;
+        frontier.push(neighbor);
+      }
+    }
+  };
+
+  const origin: GridCell = {
+    row: 1 + 2 * random.nextInt((rows - 1) / 2),
+    col: 1 + 2 * random.nextInt((cols - 1) / 2),
+  };
+  carvePassage(grid, origin, origin, options.onStep);
+  addToMaze(origin);
+
+  while (frontier.length > 0) {
+    // Swap-remove keeps frontier extraction O(1)
+    const index = random.nextInt(frontier.length);
+    const cell = frontier[index];
+    frontier[index] = frontier[frontier.length - 1];
+    frontier.pop();
+
+    const carved = getCellNeighbors(cell, rows, cols).filter(
+      neighbor => state[neighbor.row][neighbor.col] === 2
+    );
+    const target = random.pick(carved);
+    carvePassage(grid, target, cell, options.onStep);
+    addToMaze(cell);
+  }
+
+  const markers = openBoundaryMarkers(grid, options.onStep);
+  return { data: [grid], markers, seed: random.seed };
+}
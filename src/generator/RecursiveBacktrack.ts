@@ -0,0 +1,49 @@
+import {
+  GeneratedMaze,
+  GeneratorOptions,
+  GridCell,
+  WALL,
+  carvePassage,
+  createFilledGrid,
+  getCellNeighbors,
+  openBoundaryMarkers,
+  toOddSize,
+} from './gridUtils';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Recursive Backtracker - randomized depth-first search.
+ * Uses an explicit stack so large grids do not overflow the call stack.
+ */
+export function generateRecursiveBacktrack(options: GeneratorOptions): GeneratedMaze {
+  const rows = toOddSize(options.rows);
+  const cols = toOddSize(options.cols);
+  const random = new SeededRandom(options.seed);
+  const grid = createFilledGrid(rows, cols, WALL);
+  const visited = createFilledGrid(rows, cols, 0);
+
+  const origin: GridCell = { row: 1, col: 1 };
+  const stack: GridCell[] = [origin];
+  visited[origin.row][origin.col] = 1;
+  carvePassage(grid, origin, origin, options.onStep);
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const candidates = getCellNeighbors(current, rows, cols).filter(
+      cell => visited[cell.row][cell.col] === 0
+    );
+
+    if (candidates.length === 0) {
+      stack.pop();
+      continue;
+    }
+
+    const next = random.pick(candidates);
+    visited[next.row][next.col] = 1;
+    carvePassage(grid, current, next, options.onStep);
+    stack.push(next);
+  }
+
+  const markers = openBoundaryMarkers(grid, options.onStep);
+  return { data: [grid], markers, seed: random.seed };
+}
@@ -0,0 +1,99 @@
+import {
+  GeneratedMaze,
+  GeneratorOptions,
+  PATH,
+  WALL,
+  createFilledGrid,
+  openBoundaryMarkers,
+  setCell,
+  toOddSize,
+} from './gridUtils';
+import { SeededRandom } from './SeededRandom';
+
+export interface RecursiveDivisionOptions extends GeneratorOptions {
+  /**
+   * Probability (0..1) of splitting a chamber with a horizontal wall.
+   * When omitted, the longer side of each chamber decides.
+   */
+  horizontalBias?: number;
+}
+
+interface Chamber {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+/**
+ * Recursive Division - starts from an open room and keeps bisecting
+ * chambers with a wall that has a single gap
+ */
+export function generateRecursiveDivision(options: RecursiveDivisionOptions): GeneratedMaze {
+  const rows = toOddSize(options.rows);
+  const cols = toOddSize(options.cols);
+  const random = new SeededRandom(options.seed);
+  const bias =
+    options.horizontalBias === undefined ? null : Math.max(0, Math.min(1, options.horizontalBias));
+
+  const grid = createFilledGrid(rows, cols, PATH);
+  for (let row = 0; row < rows; row += 1) {
+    grid[row][0] = WALL;
+    grid[row][cols - 1] = WALL;
+  }
+  for (let col = 0; col < cols; col += 1) {
+    grid[0][col] = WALL;
+    grid[rows - 1][col] = WALL;
+  }
+
+  // Picks a random odd or even index in [min, max]
+  const pickIndex = (min: number, max: number, odd: boolean) => {
+    const first = (min % 2 === 1) === odd ? min : min + 1;
+    const count = Math.floor((max - first) / 2) + 1;
+    return first + 2 * random.nextInt(count);
+  };
+
+  // Chamber bounds are inclusive and always on odd (cell) indices
+  const chambers: Chamber[] = [{ top: 1, bottom: rows - 2, left: 1, right: cols - 2 }];
+
+  while (chambers.length > 0) {
+    const chamber = chambers.pop() as Chamber;
+    const height = chamber.bottom - chamber.top;
+    const width = chamber.right - chamber.left;
+    if (height < 2 && width < 2) continue;
+
+    let horizontal: boolean;
+    if (height < 2) {
+      horizontal = false;
+    } else if (width < 2) {
+      horizontal = true;
+    } else if (bias !== null) {
+      horizontal = random.next() < bias;
+    } else if (height !== width) {
+      horizontal = height > width;
+    } else {
+      horizontal = random.next() < 0.5;
+    }
+
+    if (horizontal) {
+      const wallRow = pickIndex(chamber.top + 1, chamber.bottom - 1, false);
+      const gapCol = pickIndex(chamber.left, chamber.right, true);
+      for (let col = chamber.left; col <= chamber.right; col += 1) {
+        if (col !== gapCol) setCell(grid, wallRow, col, WALL, options.onStep);
+      }
+      chambers.push({ ...chamber, bottom: wallRow - 1 });
+      chambers.push({ ...chamber, top: wallRow + 1 });
+    } else {
+      const wallCol = pickIndex(chamber.left + 1, chamber.right - 1, false);
+      const gapRow = pickIndex(chamber.top, chamber.bottom, true);
+      for (let row = chamber.top; row <= chamber.bottom; row += 1) {
+        if (row !== gapRow) setCell(grid, row, wallCol, WALL, options.onStep);
+      }
+      chambers.push({ ...chamber, right: wallCol - 1 });
+      chambers.push({ ...chamber, left: wallCol + 1 });
+    }
+  }
+
+  const markers = openBoundaryMarkers(grid, options.onStep);
+  return { data: [grid], markers, seed: random.seed };
+}
@@ -0,0 +1,70 @@
+/**
+ * SeededRandom - deterministic PRNG (mulberry32) shared by all generators
+ * The same seed always reproduces the same sequence, so mazes can be regenerated exactly
+ */
+export class SeededRandom {
+  public readonly seed: number;
+  private state: number;
+
+  constructor(seed?: number) {
+    this.seed = SeededRandom.normalizeSeed(seed ?? SeededRandom.randomSeed());
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a fresh unsigned 32-bit seed
+   */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Coerce any number into an unsigned 32-bit seed
+   */
+  static normalizeSeed(seed: number): number {
+    return Number.isFinite(seed) ? Math.floor(Math.abs(seed)) >>> 0 : 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Next integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Pick a random item from a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  /**
+   * Shuffle an array in place (Fisher-Yates)
+   */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i -= 1) {
+      const j = this.nextInt(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * Derive an independent generator from this seed, e.g. one per maze layer
+   */
+  fork(salt: number): SeededRandom {
+    return new SeededRandom(Math.imul(this.seed ^ salt, 0x9e3779b1) + salt);
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  GeneratedMaze,
+  GeneratorOptions,
+  GridCell,
+  WALL,
+  carvePassage,
+  createFilledGrid,
+  getCellNeighbors,
+  openBoundaryMarkers,
+  toOddSize,
+} from './gridUtils';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Wilson - loop-erased random walks produce a uniform spanning tree,
+ * so every perfect maze of the given size is equally likely
+ */
+export function generateWilson(options: GeneratorOptions): GeneratedMaze {
+  const rows = toOddSize(options.rows);
+  const cols = toOddSize(options.cols);
+  const random = new SeededRandom(options.seed);
+  const grid = createFilledGrid(rows, cols, WALL);
+  const inMaze = createFilledGrid(rows, cols, 0);
+
+  const cells: GridCell[] = [];
+  for (let row = 1; row < rows - 1; row += 2) {
+    for (let col = 1; col < cols - 1; col += 2) {
+      cells.push({ row, col });
+    }
+  }
+
+  const root = random.pick(cells);
+  inMaze[root.row][root.col] = 1;
+  carvePassage(grid, root, root, options.onStep);
+
+  // Last exit direction taken from each cell; overwriting it erases loops
+  const nextStep = new Map<number, GridCell>();
+  const keyOf = (cell: GridCell) => cell.row * cols + cell.col;
+
+  for (const start of cells) {
+    if (inMaze[start.row][start.col] === 1) continue;
+
+    let current = start;
+    while (inMaze[current.row][current.col] === 0) {
+      const neighbors = getCellNeighbors(current, rows, cols);
+      const next = random.pick(neighbors);
+      nextStep.set(keyOf(current), next);
+      current = next;
+    }
+
+    current = start;
+    while (inMaze[current.row][current.col] === 0) {
+      const next = nextStep.get(keyOf(current)) as GridCell;
+      inMaze[current.row][current.col] = 1;
+      carvePassage(grid, current, next, options.onStep);
+      current = next;
+    }
+  }
+
+  const markers = openBoundaryMarkers(grid, options.onStep);
+  return { data: [grid], markers, seed: random.seed };
+}
@@ -0,0 +1,125 @@
+import type { MazeMarkers } from '../maze/markerUtils';
+
+/**
+ * One grid change made while generating, used to replay generation.
+ * Layer is only set for multi-layer mazes.
+ */
+export interface GenerationStep {
+  type: 'carve' | 'wall' | 'hole';
+  row: number;
+  col: number;
+  layer?: number;
+}
+
+export type StepRecorder = (step: GenerationStep) => void;
+
+export interface GeneratorOptions {
+  rows: number;
+  cols: number;
+  seed?: number;
+  onStep?: StepRecorder;
+}
+
+export interface GeneratedMaze {
+  data: number[][][];
+  markers: MazeMarkers;
+  seed: number;
+}
+
+export interface GridCell {
+  row: number;
+  col: number;
+}
+
+export const WALL = 1;
+export const PATH = 0;
+export const HOLE = 2;
+export const MIN_MAZE_SIZE = 5;
+export const MAX_MAZE_SIZE = 101;
+
+/**
+ * Clamp a requested size and round it down to the nearest odd number,
+ * so cells sit on odd indices and walls on even indices
+ */
+export function toOddSize(value: number): number {
+  const size = Math.max(MIN_MAZE_SIZE, Math.min(MAX_MAZE_SIZE, Math.floor(value) || 0));
+  return size % 2 === 0 ? size - 1 : size;
+}
+
+/**
+ * Create a rows x cols grid filled with a single value
+ */
+export function createFilledGrid(rows: number, cols: number, value: number): number[][] {
+  const grid: number[][] = [];
+  for (let row = 0; row < rows; row += 1) {
+    grid.push(new Array<number>(cols).fill(value));
+  }
+  return grid;
+}
+
+/**
+ * Neighbouring cells two steps away (skipping the wall between them)
+ */
+export function getCellNeighbors(cell: GridCell, rows: number, cols: number): GridCell[] {
+  const neighbors: GridCell[] = [];
+  const offsets = [
+    [-2, 0],
+    [2, 0],
+    [0, -2],
+    [0, 2],
+  ];
+  for (const [dr, dc] of offsets) {
+    const row = cell.row + dr;
+    const col = cell.col + dc;
+    if (row > 0 && row < rows - 1 && col > 0 && col < cols - 1) {
+      neighbors.push({ row, col });
+    }
+  }
+  return neighbors;
+}
+
+/**
+ * Write one cell, reporting it to the step recorder if the value changed
+ */
+export function setCell(
+  grid: number[][],
+  row: number,
+  col: number,
+  value: number,
+  onStep?: StepRecorder
+): void {
+  if (grid[row][col] === value) return;
+  grid[row][col] = value;
+  if (onStep) {
+    const type = value === WALL ? 'wall' : value === HOLE ? 'hole' : 'carve';
+    onStep({ type, row, col });
+  }
+}
+
+/**
+ * Open the wall between two cells and both cells themselves
+ */
+export function carvePassage(
+  grid: number[][],
+  from: GridCell,
+  to: GridCell,
+  onStep?: StepRecorder
+): void {
+  setCell(grid, from.row, from.col, PATH, onStep);
+  setCell(grid, (from.row + to.row) / 2, (from.col + to.col) / 2, PATH, onStep);
+  setCell(grid, to.row, to.col, PATH, onStep);
+}
+
+/**
+ * Open an entry on the first row and an exit on the last row.
+ * Matches the boundary scan order of computeMarkersFromLayer.
+ */
+export function openBoundaryMarkers(grid: number[][], onStep?: StepRecorder): MazeMarkers {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const start = { row: 0, col: 1 };
+  const end = { row: rows - 1, col: cols - 2 };
+  setCell(grid, start.row, start.col, PATH, onStep);
+  setCell(grid, end.row, end.col, PATH, onStep);
+  return { start, end };
+}
@@ -0,0 +1,203 @@
+import { GeneratedMaze, GeneratorOptions, HOLE, PATH } from './gridUtils';
+import { SeededRandom } from './SeededRandom';
+import { generateRecursiveBacktrack } from './RecursiveBacktrack';
+import { generateKruskal } from './KruskalAlgorithm';
+import { generatePrim } from './PrimAlgo';
+import { generateWilson } from './WilsonAlgo';
+import { generateRecursiveDivision } from './RecursiveDivision';
+import { generateBinaryTree, generateSidewinder, BinaryTreeBias } from './BinaryTreeAlgo';
+
+export type { GeneratedMaze, GeneratorOptions, GenerationStep } from './gridUtils';
+export { MIN_MAZE_SIZE, MAX_MAZE_SIZE } from './gridUtils';
+export type { BinaryTreeBias } from './BinaryTreeAlgo';
+
+export type GeneratorParamValue = number | string;
+
+/**
+ * Describes one algorithm-specific parameter so UIs can build inputs for it.
+ * A null default means the parameter is optional and left to the algorithm.
+ */
+export interface GeneratorParamSchema {
+  key: string;
+  label: string;
+  type: 'number' | 'select';
+  defaultValue: GeneratorParamValue | null;
+  min?: number;
+  max?: number;
+  step?: number;
+  choices?: { value: string; label: string }[];
+}
+
+export interface MazeGeneratorOptions extends GeneratorOptions {
+  params?: Record<string, GeneratorParamValue | null | undefined>;
+  layers?: number;
+}
+
+export const MAX_LAYERS = 6;
+
+/**
+ * Common contract for every maze generation algorithm
+ */
+export interface MazeGenerator {
+  id: string;
+  name: string;
+  params: GeneratorParamSchema[];
+  generate(options: MazeGeneratorOptions): GeneratedMaze;
+}
+
+const BIAS_CHOICES: { value: BinaryTreeBias; label: string }[] = [
+  { value: 'NE', label: 'North-East' },
+  { value: 'NW', label: 'North-West' },
+  { value: 'SE', label: 'South-East' },
+  { value: 'SW', label: 'South-West' },
+];
+
+const BIAS_PARAM: GeneratorParamSchema = {
+  key: 'bias',
+  label: 'Bias',
+  type: 'select',
+  defaultValue: 'NE',
+  choices: BIAS_CHOICES,
+};
+
+function readNumberParam(options: MazeGeneratorOptions, key: string): number | undefined {
+  const value = options.params?.[key];
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function readBiasParam(options: MazeGeneratorOptions): BinaryTreeBias | undefined {
+  const value = options.params?.bias;
+  return BIAS_CHOICES.find(choice => choice.value === value)?.value;
+}
+
+const GENERATORS: MazeGenerator[] = [
+  {
+    id: 'recursive-backtrack',
+    name: 'Recursive Backtracker',
+    params: [],
+    generate: options => generateRecursiveBacktrack(options),
+  },
+  {
+    id: 'kruskal',
+    name: "Kruskal's Algorithm",
+    params: [],
+    generate: options => generateKruskal(options),
+  },
+  {
+    id: 'prim',
+    name: "Prim's Algorithm",
+    params: [],
+    generate: options => generatePrim(options),
+  },
+  {
+    id: 'wilson',
+    name: "Wilson's Algorithm",
+    params: [],
+    generate: options => generateWilson(options),
+  },
+  {
+    id: 'recursive-division',
+    name: 'Recursive Division',
+    params: [
+      {
+        key: 'horizontalBias',
+        label: 'Horizontal bias',
+        type: 'number',
+        defaultValue: null,
+        min: 0,
+        max: 1,
+        step: 0.1,
+      },
+    ],
+    generate: options =>
+      generateRecursiveDivision({
+        ...options,
+        horizontalBias: readNumberParam(options, 'horizontalBias'),
+      }),
+  },
+  {
+    id: 'binary-tree',
+    name: 'Binary Tree',
+    params: [BIAS_PARAM],
+    generate: options => generateBinaryTree({ ...options, bias: readBiasParam(options) }),
+  },
+  {
+    id: 'sidewinder',
+    name: 'Sidewinder',
+    params: [BIAS_PARAM],
+    generate: options => generateSidewinder({ ...options, bias: readBiasParam(options) }),
+  },
+];
+
+/**
+ * List all registered generators in display order
+ */
+export function listGenerators(): readonly MazeGenerator[] {
+  return GENERATORS;
+}
+
+/**
+ * Find a generator by id
+ */
+export function getGenerator(id: string): MazeGenerator | null {
+  return GENERATORS.find(generator => generator.id === id) ?? null;
+}
+
+/**
+ * Run a generator by id.
+ * With several layers, each layer gets its own forked seed and is linked to
+ * the layer below through one hole (cell value 2). The start marker sits on
+ * the top layer and the end on layer 0, so the route has to use the holes.
+ */
+export function generateMaze(id: string, options: MazeGeneratorOptions): GeneratedMaze {
+  const generator = getGenerator(id);
+  if (!generator) {
+    throw new Error(`Unknown maze generator "${id}"`);
+  }
+
+  const layers = Math.max(1, Math.min(MAX_LAYERS, Math.floor(options.layers ?? 1)));
+  const random = new SeededRandom(options.seed);
+  if (layers === 1) {
+    return generator.generate({ ...options, seed: random.seed });
+  }
+
+  const data: number[][][] = [];
+  let markers: GeneratedMaze['markers'] = { start: null, end: null };
+  for (let index = 0; index < layers; index += 1) {
+    const layerSeed = index === 0 ? random.seed : random.fork(index).seed;
+    const onStep = options.onStep;
+    const result = generator.generate({
+      ...options,
+      seed: layerSeed,
+      onStep: onStep ? step => onStep({ ...step, layer: index }) : undefined,
+    });
+    const layer = result.data[0];
+
+    if (index === 0) {
+      markers = result.markers;
+    } else {
+      if (index === layers - 1 && result.markers.start) {
+        markers = { ...markers, start: { ...result.markers.start, layer: index } };
+      }
+      const below = data[index - 1];
+      const candidates: { row: number; col: number }[] = [];
+      for (let row = 1; row < layer.length - 1; row += 2) {
+        for (let col = 1; col < layer[row].length - 1; col += 2) {
+          if (layer[row][col] === PATH && below[row][col] === PATH) {
+            candidates.push({ row, col });
+          }
+        }
+      }
+      if (candidates.length > 0) {
+        const hole = random.pick(candidates);
+        layer[hole.row][hole.col] = HOLE;
+        options.onStep?.({ type: 'hole', row: hole.row, col: hole.col, layer: index });
+      }
+    }
+    data.push(layer);
+  }
+
+  return { data, markers, seed: random.seed };
+}
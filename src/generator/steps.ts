@@ -0,0 +1,26 @@
+import { GenerationStep, HOLE, PATH, WALL } from './gridUtils';
+
+/**
+ * Apply one recorded step to a frame in place
+ */
+export function applyStep(frame: number[][][], step: GenerationStep): void {
+  const layer = frame[step.layer ?? 0];
+  if (!layer) return;
+  layer[step.row][step.col] = step.type === 'wall' ? WALL : step.type === 'hole' ? HOLE : PATH;
+}
+
+/**
+ * Rebuild the grid as it was before the first step, by undoing the
+ * recorded steps on a copy of the final maze. Every recorded step flips a
+ * cell, so the previous value follows from the step type alone.
+ */
+export function rewindSteps(data: number[][][], steps: GenerationStep[]): number[][][] {
+  const frame = data.map(layer => layer.map(row => row.slice()));
+  for (let index = steps.length - 1; index >= 0; index -= 1) {
+    const step = steps[index];
+    const layer = frame[step.layer ?? 0];
+    if (!layer) continue;
+    layer[step.row][step.col] = step.type === 'carve' ? WALL : PATH;
+  }
+  return frame;
+}
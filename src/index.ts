@@ -6,13 +6,99 @@
 export { ResourceManager } from './resources/ResourceManager';
 export { DisposalHelper } from './resources/DisposalHelper';
 export { MeshFactory } from './resources/MeshFactory';
-export type { WallParams, FloorParams } from './resources/MeshFactory';
+export type { WallParams, FloorParams, PathSegmentParams } from './resources/MeshFactory';
 
 // Maze classes
 export { Maze } from './maze/Maze';
-export type { MazeConfig } from './maze/Maze';
+export type { MazeConfig, PathCell } from './maze/Maze';
 export { SingleLayerMaze } from './maze/SingleLayerMaze';
 export { MultiLayerMaze } from './maze/MultiLayerMaze';
+export { buildMazeSolid, mazeToSTL } from './maze/mazeSolid';
+export type { MazeSolidOptions } from './maze/mazeSolid';
+export {
+  CellType,
+  createMazeDocument,
+  documentToGrid,
+  getDocumentMarkers,
+  withCells,
+  documentFromDisplayRows,
+  documentToDisplayRows,
+} from './maze/MazeDocument';
+export type {
+  MazeCell,
+  MazeDocument,
+  MazeDocumentLayer,
+  MazeMetadata,
+  LayerMarkers,
+} from './maze/MazeDocument';
+export { validateMaze } from './maze/validateMaze';
+export {
+  MAZE_FILE_FORMAT,
+  MAZE_FILE_VERSION,
+  serializeMazeFile,
+  readMazeFile,
+  mazeFileName,
+} from './maze/mazeFile';
+export type { MazeFile, MazeFileSettings, MazeFileReadResult } from './maze/mazeFile';
+export { MAZE_TEXT_CHARS, parseMazeText, serializeMazeText } from './maze/mazeText';
+export type { MazeTextReadResult } from './maze/mazeText';
+export {
+  thresholdImage,
+  findDarkBounds,
+  detectCellSize,
+  detectGridSize,
+  maskToDisplayRows,
+  imageToMaze,
+} from './maze/imageImport';
+export type { ImagePixels, ImageMask, ImageBounds, ImageGridOptions } from './maze/imageImport';
+export type {
+  MazeValidationCode,
+  MazeValidationError,
+  MazeValidationResult,
+} from './maze/validateMaze';
+
+// 2D export
+export {
+  PAPER_SIZES,
+  mazeLayerToSVG,
+  mazeToSVG,
+  mazeToSVGPages,
+  mazeToPrintHTML,
+} from './preview/svgExport';
+export type { SvgExportOptions, SvgWallStyle, PaperSize } from './preview/svgExport';
+
+// Generators
+export { listGenerators, getGenerator, generateMaze } from './generator';
+export { SeededRandom } from './generator/SeededRandom';
+export type {
+  MazeGenerator,
+  MazeGeneratorOptions,
+  GeneratorParamSchema,
+  GeneratorParamValue,
+  GeneratedMaze,
+  GeneratorOptions,
+} from './generator';
+
+// Solvers
+export { listSolvers, getSolver, solveMaze } from './solve';
+export type { MazeSolver, SolverId, SolveCell, SolveResult, SolveOptions } from './solve';
+
+// Agents
+export { listAgents, getAgent, runAgent } from './agent';
+export type { MazeAgent, AgentId, AgentResult, AgentOptions } from './agent';
+
+// Analysis
+export { analyzeMaze, fillDeadEnds } from './analysis';
+export type { MazeAnalysis, DeadEndFill, AnalysisOptions } from './analysis';
+
+// Benchmark
+export {
+  benchmarkSolvers,
+  benchmarkGenerators,
+  benchmarkToCSV,
+  benchmarkToJSON,
+} from './benchmark';
+export type { BenchmarkRow, SolverBenchmarkOptions, GeneratorBenchmarkOptions } from './benchmark';
 
 // GUI
 export { GUIController } from './gui';
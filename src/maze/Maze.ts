@@ -1,8 +1,9 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter';
 import { ResourceManager } from '../resources/ResourceManager';
 import { DisposalHelper } from '../resources/DisposalHelper';
-import { MeshFactory } from '../resources/MeshFactory';
+import { MeshFactory, CellTint } from '../resources/MeshFactory';
 
 export interface MazeConfig {
   wallHeight?: number;
@@ -10,6 +11,12 @@ export interface MazeConfig {
   cellSize?: number;
 }
 
+export interface PathCell {
+  row: number;
+  col: number;
+  layer?: number;
+}
+
 /**
  * Base Maze Class - Manages Three.js scene and rendering
  * Refactored with proper memory management
@@ -25,6 +32,11 @@ export abstract class Maze {
   // Maze data
   protected maze: number[][][];
   protected mazeLayers: THREE.Object3D[] = [];
+  protected pathGroup: THREE.Group | null = null;
+  protected tintGroup: THREE.Group | null = null;
+  protected avatar: THREE.Mesh | null = null;
+  private tintTiles: Map<string, THREE.Mesh> = new Map();
+  private cellMeshes: Map<string, THREE.Object3D[]> = new Map();
 
   // Configuration
   protected wallHeight: number;
@@ -47,6 +59,7 @@ export abstract class Maze {
   private needsRender: boolean = true;
   private isRendering: boolean = false;
   private isDisposed: boolean = false;
+  private keepCamera: boolean = false;
   private renderListeners: Set<() => void> = new Set();
 
   constructor(canvas: HTMLCanvasElement, maze: number[][][], config: MazeConfig = {}) {
@@ -119,18 +132,142 @@ export abstract class Maze {
 
   /**
    * Update maze data and rebuild geometry without recreating renderer/controls
+   * keepCamera leaves the view untouched, e.g. while playing back generation
    */
-  public updateMazeData(maze: number[][][]): void {
+  public updateMazeData(maze: number[][][], keepCamera: boolean = false): void {
     if (this.isDisposed) return;
     this.maze = maze;
+    this.clearPath();
+    this.clearCellTints();
+    this.clearAvatar();
+    this.keepCamera = keepCamera;
     this.createMaze();
+    this.keepCamera = false;
     this.requestRender();
   }
 
+  /**
+   * Apply a frame that differs from the current maze in a few cells, e.g. one
+   * generation step. Only the meshes touching changed cells are rebuilt.
+   */
+  public updateMazeCells(maze: number[][][]): void {
+    if (this.isDisposed) return;
+    const sameShape =
+      maze.length === this.maze.length &&
+      maze.length === this.mazeLayers.length &&
+      maze.every(
+        (layer, layerIndex) =>
+          layer.length === this.maze[layerIndex].length &&
+          layer.every((row, rowIndex) => row.length === this.maze[layerIndex][rowIndex].length)
+      );
+    if (!sameShape) {
+      this.updateMazeData(
+        maze.map(layer => layer.map(row => row.slice())),
+        true
+      );
+      return;
+    }
+
+    // Wall segments belong to the cell on their left or below, so those cells rebuild too
+    const owners = new Set<string>();
+    maze.forEach((layer, layerIndex) => {
+      layer.forEach((row, rowIndex) => {
+        row.forEach((cell, colIndex) => {
+          if (cell === this.maze[layerIndex][rowIndex][colIndex]) return;
+          this.maze[layerIndex][rowIndex][colIndex] = cell;
+          owners.add(`${layerIndex}:${rowIndex}:${colIndex}`);
+          if (colIndex > 0) owners.add(`${layerIndex}:${rowIndex}:${colIndex - 1}`);
+          if (rowIndex > 0) owners.add(`${layerIndex}:${rowIndex - 1}:${colIndex}`);
+        });
+      });
+    });
+    if (owners.size === 0) return;
+
+    this.clearPath();
+    this.clearCellTints();
+    this.clearAvatar();
+    owners.forEach(key => {
+      const [layerIndex, rowIndex, colIndex] = key.split(':').map(Number);
+      const mazeLayer = this.mazeLayers[layerIndex];
+      this.cellMeshes.get(key)?.forEach(mesh => {
+        DisposalHelper.disposeObject(mesh);
+        mazeLayer.remove(mesh);
+      });
+      this.addCell(layerIndex, rowIndex, colIndex, mazeLayer);
+    });
+    this.requestRender();
+  }
+
+  /**
+   * Build every cell of a layer into its scene object
+   */
+  protected createLayerCells(layerIndex: number, mazeLayer: THREE.Object3D): void {
+    this.maze[layerIndex].forEach((row, rowIndex) => {
+      row.forEach((_, colIndex) => this.addCell(layerIndex, rowIndex, colIndex, mazeLayer));
+    });
+  }
+
+  /**
+   * Meshes owned by one cell: the wall segments to its right and upper neighbours
+   */
+  protected createCellMeshes(
+    layerIndex: number,
+    rowIndex: number,
+    colIndex: number
+  ): THREE.Object3D[] {
+    const layer = this.maze[layerIndex];
+    const row = layer[rowIndex];
+    const meshes: THREE.Object3D[] = [];
+    if (row[colIndex] !== 1) return meshes;
+
+    const layerHeight = layerIndex * this.wallHeight;
+
+    // Horizontal wall (connects to right cell)
+    if (colIndex < row.length - 1 && row[colIndex + 1] === 1) {
+      meshes.push(
+        this.meshFactory.createWall({
+          x: colIndex * this.cellSize + this.cellSize / 2,
+          y: layerHeight + this.wallHeight / 2,
+          z: -rowIndex * this.cellSize,
+          width: this.cellSize,
+          height: this.wallHeight,
+          depth: this.wallThickness,
+        })
+      );
+    }
+
+    // Vertical wall (connects to next row)
+    if (rowIndex < layer.length - 1 && layer[rowIndex + 1][colIndex] === 1) {
+      meshes.push(
+        this.meshFactory.createWall({
+          x: colIndex * this.cellSize,
+          y: layerHeight + this.wallHeight / 2,
+          z: -(rowIndex * this.cellSize + this.cellSize / 2),
+          width: this.wallThickness,
+          height: this.wallHeight,
+          depth: this.cellSize,
+        })
+      );
+    }
+    return meshes;
+  }
+
+  private addCell(
+    layerIndex: number,
+    rowIndex: number,
+    colIndex: number,
+    mazeLayer: THREE.Object3D
+  ): void {
+    const meshes = this.createCellMeshes(layerIndex, rowIndex, colIndex);
+    meshes.forEach(mesh => mazeLayer.add(mesh));
+    this.cellMeshes.set(`${layerIndex}:${rowIndex}:${colIndex}`, meshes);
+  }
+
   /**
    * Position camera to view entire maze
    */
   protected positionCamera(centerX: number, centerZ: number, distance: number): void {
+    if (this.keepCamera) return;
     this.camera.position.set(centerX, 10, distance);
     this.controls.target.set(centerX, 0, centerZ);
     this.controls.update();
@@ -202,6 +339,140 @@ export abstract class Maze {
       this.scene.remove(layer);
     });
     this.mazeLayers = [];
+    this.cellMeshes.clear();
+  }
+
+  /**
+   * Draw a route through cell centres as a chain of boxes,
+   * lifted to the height of each cell's layer
+   */
+  public showPath(cells: PathCell[]): void {
+    this.clearPath();
+    if (this.isDisposed || cells.length === 0) return;
+
+    const group = new THREE.Group();
+    const size = this.cellSize * 0.3;
+    const toWorld = (cell: PathCell) => ({
+      x: cell.col * this.cellSize,
+      y: (cell.layer ?? 0) * this.wallHeight + size / 2,
+      z: -cell.row * this.cellSize,
+    });
+
+    if (cells.length === 1) {
+      const point = toWorld(cells[0]);
+      group.add(
+        this.meshFactory.createPathSegment({ ...point, width: size, height: size, depth: size })
+      );
+    }
+
+    for (let i = 1; i < cells.length; i += 1) {
+      const from = toWorld(cells[i - 1]);
+      const to = toWorld(cells[i]);
+      group.add(
+        this.meshFactory.createPathSegment({
+          x: (from.x + to.x) / 2,
+          y: (from.y + to.y) / 2,
+          z: (from.z + to.z) / 2,
+          width: Math.abs(to.x - from.x) + size,
+          height: Math.abs(to.y - from.y) + size,
+          depth: Math.abs(to.z - from.z) + size,
+        })
+      );
+    }
+
+    this.pathGroup = group;
+    this.scene.add(group);
+    this.requestRender();
+  }
+
+  /**
+   * Remove the route drawn by showPath
+   */
+  public clearPath(): void {
+    if (!this.pathGroup) return;
+    DisposalHelper.disposeGroup(this.pathGroup);
+    this.scene.remove(this.pathGroup);
+    this.pathGroup = null;
+    this.requestRender();
+  }
+
+  /**
+   * Tint a single cell (or remove its tint) without touching wall meshes
+   */
+  public setCellTint(cell: PathCell, tint: CellTint | null): void {
+    if (this.isDisposed) return;
+    const key = `${cell.layer ?? 0}:${cell.row}:${cell.col}`;
+    const existing = this.tintTiles.get(key);
+
+    if (!tint) {
+      if (existing) {
+        existing.parent?.remove(existing);
+        DisposalHelper.disposeMesh(existing);
+        this.tintTiles.delete(key);
+        this.requestRender();
+      }
+      return;
+    }
+
+    if (existing) {
+      existing.material = this.meshFactory.getTintMaterial(tint);
+    } else {
+      if (!this.tintGroup) {
+        this.tintGroup = new THREE.Group();
+        this.scene.add(this.tintGroup);
+      }
+      const tile = this.meshFactory.createTintTile(
+        cell.col * this.cellSize,
+        (cell.layer ?? 0) * this.wallHeight + 0.005,
+        -cell.row * this.cellSize,
+        this.cellSize * 0.9,
+        tint
+      );
+      this.tintGroup.add(tile);
+      this.tintTiles.set(key, tile);
+    }
+    this.requestRender();
+  }
+
+  /**
+   * Remove all cell tints
+   */
+  public clearCellTints(): void {
+    this.tintTiles.clear();
+    if (!this.tintGroup) return;
+    DisposalHelper.disposeGroup(this.tintGroup);
+    this.scene.remove(this.tintGroup);
+    this.tintGroup = null;
+    this.requestRender();
+  }
+
+  /**
+   * Move the agent avatar onto a cell, creating it on first use
+   */
+  public setAvatar(cell: PathCell): void {
+    if (this.isDisposed) return;
+    const radius = this.cellSize * 0.3;
+    if (!this.avatar) {
+      this.avatar = this.meshFactory.createAvatar(0, 0, 0, radius);
+      this.scene.add(this.avatar);
+    }
+    this.avatar.position.set(
+      cell.col * this.cellSize,
+      (cell.layer ?? 0) * this.wallHeight + radius,
+      -cell.row * this.cellSize
+    );
+    this.requestRender();
+  }
+
+  /**
+   * Remove the agent avatar
+   */
+  public clearAvatar(): void {
+    if (!this.avatar) return;
+    this.scene.remove(this.avatar);
+    DisposalHelper.disposeMesh(this.avatar);
+    this.avatar = null;
+    this.requestRender();
   }
 
   /**
@@ -215,8 +486,11 @@ export abstract class Maze {
     // Stop animation
     this.stopAnimation();
 
-    // Delete maze
+    // Delete maze and overlays
     this.deleteMaze();
+    this.clearPath();
+    this.clearCellTints();
+    this.clearAvatar();
 
     // Dispose controls
     this.controls.dispose();
@@ -241,6 +515,35 @@ export abstract class Maze {
     return this.maze.map(layer => layer.map(row => row.slice()));
   }
 
+  public getMazeConfig(): Required<MazeConfig> {
+    return {
+      wallHeight: this.wallHeight,
+      wallThickness: this.wallThickness,
+      cellSize: this.cellSize,
+    };
+  }
+
+  /**
+   * Binary glTF of the walls and floors with their materials.
+   * Edges, solution path, tints and avatar are left out.
+   */
+  public exportGLB(): Promise<ArrayBuffer> {
+    const root = new THREE.Group();
+    root.name = 'maze';
+    this.mazeLayers.forEach((layer, layerIndex) => {
+      // Clones share geometry and materials, so there is nothing to dispose
+      const copy = layer.clone();
+      copy.name = `layer-${layerIndex}`;
+      const edges: THREE.Object3D[] = [];
+      copy.traverse(child => {
+        if (child instanceof THREE.LineSegments) edges.push(child);
+      });
+      edges.forEach(edge => edge.removeFromParent());
+      root.add(copy);
+    });
+    return new GLTFExporter().parseAsync(root, { binary: true }) as Promise<ArrayBuffer>;
+  }
+
   public updateWallColor(color: string): void {
     this.wallColor.set(color);
     this.resourceManager.updateMaterialColor('wall', this.wallColor);
@@ -0,0 +1,148 @@
+import { computeMarkersFromLayer, MarkerCell, MazeMarkers } from './markerUtils';
+
+/**
+ * Cell codes stored in the grid
+ */
+export const CellType = {
+  Path: 0,
+  Wall: 1,
+  /** No floor: drops to the same cell on the layer below, one way only */
+  Hole: 2,
+  /** Climbs to the same cell on the layer above, the only way up */
+  Stairs: 3,
+} as const;
+
+export type MazeCell = (typeof CellType)[keyof typeof CellType];
+
+export interface LayerMarkers {
+  start: MarkerCell | null;
+  end: MarkerCell | null;
+}
+
+export interface MazeDocumentLayer {
+  cells: MazeCell[][];
+  markers: LayerMarkers;
+}
+
+export interface MazeMetadata {
+  name: string | null;
+  seed: number | null;
+  generator: string | null;
+}
+
+/**
+ * A maze with its dimensions, per-layer markers and where it came from.
+ * Rows are stored bottom-up like the 3D scene (row 0 is nearest the camera).
+ */
+export interface MazeDocument {
+  rows: number;
+  cols: number;
+  layers: MazeDocumentLayer[];
+  metadata: MazeMetadata;
+}
+
+const EMPTY_METADATA: MazeMetadata = { name: null, seed: null, generator: null };
+
+const copyCell = (cell: MarkerCell | null | undefined): MarkerCell | null =>
+  cell ? { row: cell.row, col: cell.col } : null;
+
+/**
+ * Build a document from raw grid data. Marker layers come from `cell.layer`;
+ * without markers they are computed from layer 0 like the preview does.
+ */
+export function createMazeDocument(
+  data: number[][][],
+  markers?: Partial<MazeMarkers> | null,
+  metadata: Partial<MazeMetadata> = {}
+): MazeDocument {
+  const resolved = markers ?? computeMarkersFromLayer(data[0]);
+  const layers: MazeDocumentLayer[] = data.map((layer, layerIndex) => ({
+    cells: layer.map(row => row.slice() as MazeCell[]),
+    markers: {
+      start: (resolved?.start?.layer ?? 0) === layerIndex ? copyCell(resolved?.start) : null,
+      end: (resolved?.end?.layer ?? 0) === layerIndex ? copyCell(resolved?.end) : null,
+    },
+  }));
+
+  return {
+    rows: data[0]?.length ?? 0,
+    cols: data[0]?.[0]?.length ?? 0,
+    layers,
+    metadata: { ...EMPTY_METADATA, ...metadata },
+  };
+}
+
+/**
+ * Raw grid data for the scene, solvers and serializers
+ */
+export function documentToGrid(document: MazeDocument): number[][][] {
+  return document.layers.map(layer => layer.cells.map(row => row.slice()));
+}
+
+/**
+ * Start and end across all layers, tagged with the layer they sit on
+ */
+export function getDocumentMarkers(document: MazeDocument): MazeMarkers {
+  const markers: MazeMarkers = { start: null, end: null };
+  document.layers.forEach((layer, layerIndex) => {
+    if (!markers.start && layer.markers.start) {
+      markers.start = { ...layer.markers.start, layer: layerIndex };
+    }
+    if (!markers.end && layer.markers.end) {
+      markers.end = { ...layer.markers.end, layer: layerIndex };
+    }
+  });
+  return markers;
+}
+
+/**
+ * Same document with new cells, e.g. a generation playback frame
+ */
+export function withCells(document: MazeDocument, data: number[][][]): MazeDocument {
+  return {
+    ...document,
+    layers: document.layers.map((layer, layerIndex) => ({
+      ...layer,
+      cells: (data[layerIndex] ?? layer.cells).map(row => row.slice() as MazeCell[]),
+    })),
+  };
+}
+
+/**
+ * Single-layer document from rows listed top-down, as the editor draws them
+ */
+export function documentFromDisplayRows(
+  grid: number[][],
+  start: MarkerCell | null,
+  end: MarkerCell | null,
+  metadata: Partial<MazeMetadata> = {}
+): MazeDocument {
+  const rows = grid.length;
+  const flip = (cell: MarkerCell | null) =>
+    cell ? { row: rows - 1 - cell.row, col: cell.col } : null;
+  return createMazeDocument(
+    [grid.slice().reverse()],
+    { start: flip(start), end: flip(end) },
+    metadata
+  );
+}
+
+/**
+ * One layer as top-down rows plus its markers in the same orientation
+ */
+export function documentToDisplayRows(
+  document: MazeDocument,
+  layerIndex: number = 0
+): { grid: number[][]; start: MarkerCell | null; end: MarkerCell | null } {
+  const layer = document.layers[layerIndex];
+  if (!layer) return { grid: [], start: null, end: null };
+
+  const rows = layer.cells.length;
+  const flip = (cell: MarkerCell | null) =>
+    cell ? { row: rows - 1 - cell.row, col: cell.col } : null;
+  return {
+    grid: layer.cells.map(row => row.slice()).reverse(),
+    start: flip(layer.markers.start),
+    end: flip(layer.markers.end),
+  };
+}
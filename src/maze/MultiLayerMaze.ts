@@ -14,15 +14,12 @@ export class MultiLayerMaze extends Maze {
 
     this.maze.forEach((layer, layerIndex) => {
       const mazeLayer = new THREE.Object3D();
-      const layerHeight = layerIndex * this.wallHeight;
 
-      // Create walls for this layer
-      this.createWallsForLayer(layer, layerHeight, mazeLayer);
+      // Create walls, and small floors above the first layer
+      this.createLayerCells(layerIndex, mazeLayer);
 
-      // Create floors (except for first layer which has main floor)
-      if (layerIndex > 0) {
-        this.createLayerFloors(layer, layerHeight, mazeLayer);
-      } else {
+      // First layer has the main floor
+      if (layerIndex === 0) {
         this.createMainFloor(layer, mazeLayer);
       }
 
@@ -35,68 +32,27 @@ export class MultiLayerMaze extends Maze {
   }
 
   /**
-   * Create walls for a layer
+   * Walls of the cell, a flight of steps on stairs (value 3), plus a small floor
+   * above the first layer (except cells with value 2)
    */
-  private createWallsForLayer(
-    layer: number[][],
-    layerHeight: number,
-    mazeLayer: THREE.Object3D
-  ): void {
-    layer.forEach((row, rowIndex) => {
-      row.forEach((cell, colIndex) => {
-        if (cell === 1) {
-          // Horizontal wall
-          if (colIndex < row.length - 1 && row[colIndex + 1] === 1) {
-            const wall = this.meshFactory.createWall({
-              x: colIndex * this.cellSize + this.cellSize / 2,
-              y: layerHeight + this.wallHeight / 2,
-              z: -rowIndex * this.cellSize,
-              width: this.cellSize,
-              height: this.wallHeight,
-              depth: this.wallThickness,
-            });
-            mazeLayer.add(wall);
-          }
-
-          // Vertical wall
-          if (rowIndex < layer.length - 1 && layer[rowIndex + 1][colIndex] === 1) {
-            const wall = this.meshFactory.createWall({
-              x: colIndex * this.cellSize,
-              y: layerHeight + this.wallHeight / 2,
-              z: -(rowIndex * this.cellSize + this.cellSize / 2),
-              width: this.wallThickness,
-              height: this.wallHeight,
-              depth: this.cellSize,
-            });
-            mazeLayer.add(wall);
-          }
-        }
-      });
-    });
-  }
-
-  /**
-   * Create small floors for cells in layer (except cells with value 2)
-   */
-  private createLayerFloors(
-    layer: number[][],
-    layerHeight: number,
-    mazeLayer: THREE.Object3D
-  ): void {
-    layer.forEach((row, rowIndex) => {
-      row.forEach((cell, colIndex) => {
-        // Cell value 2 = no floor (hole/opening)
-        if (cell !== 2) {
-          const smallFloor = this.meshFactory.createSmallFloor(
-            colIndex * this.cellSize,
-            layerHeight,
-            -rowIndex * this.cellSize,
-            this.cellSize
-          );
-          mazeLayer.add(smallFloor);
-        }
-      });
-    });
+  protected createCellMeshes(
+    layerIndex: number,
+    rowIndex: number,
+    colIndex: number
+  ): THREE.Object3D[] {
+    const meshes = super.createCellMeshes(layerIndex, rowIndex, colIndex);
+    const cell = this.maze[layerIndex][rowIndex][colIndex];
+    const x = colIndex * this.cellSize;
+    const y = layerIndex * this.wallHeight;
+    const z = -rowIndex * this.cellSize;
+    // Cell value 2 = no floor (hole/opening)
+    if (layerIndex > 0 && cell !== 2) {
+      meshes.push(this.meshFactory.createSmallFloor(x, y, z, this.cellSize));
+    }
+    if (cell === 3) {
+      meshes.push(this.meshFactory.createStairs(x, y, z, this.cellSize, this.wallHeight));
+    }
+    return meshes;
   }
 
   /**
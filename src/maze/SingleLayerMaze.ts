@@ -16,7 +16,7 @@ export class SingleLayerMaze extends Maze {
     const layer = this.maze[0];
 
     // Create walls
-    this.createWalls(layer, mazeLayer);
+    this.createLayerCells(0, mazeLayer);
 
     // Create main floor
     this.createMainFloor(layer, mazeLayer);
@@ -29,43 +29,6 @@ export class SingleLayerMaze extends Maze {
     this.positionCameraForMaze(layer);
   }
 
-  /**
-   * Create walls for layer
-   */
-  private createWalls(layer: number[][], mazeLayer: THREE.Object3D): void {
-    layer.forEach((row, rowIndex) => {
-      row.forEach((cell, colIndex) => {
-        if (cell === 1) {
-          // Horizontal wall (connects to right cell)
-          if (colIndex < row.length - 1 && row[colIndex + 1] === 1) {
-            const wall = this.meshFactory.createWall({
-              x: colIndex * this.cellSize + this.cellSize / 2,
-              y: this.wallHeight / 2,
-              z: -rowIndex * this.cellSize,
-              width: this.cellSize,
-              height: this.wallHeight,
-              depth: this.wallThickness,
-            });
-            mazeLayer.add(wall);
-          }
-
-          // Vertical wall (connects to bottom cell)
-          if (rowIndex < layer.length - 1 && layer[rowIndex + 1][colIndex] === 1) {
-            const wall = this.meshFactory.createWall({
-              x: colIndex * this.cellSize,
-              y: this.wallHeight / 2,
-              z: -(rowIndex * this.cellSize + this.cellSize / 2),
-              width: this.wallThickness,
-              height: this.wallHeight,
-              depth: this.cellSize,
-            });
-            mazeLayer.add(wall);
-          }
-        }
-      });
-    });
-  }
-
   /**
    * Create main floor
    */
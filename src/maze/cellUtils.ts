@@ -0,0 +1,19 @@
+import { CellType } from './MazeDocument';
+
+/**
+ * The four in-layer moves: next row, previous row, next column, previous column
+ */
+export const NEIGHBOUR_OFFSETS: readonly (readonly [number, number])[] = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+
+/**
+ * Inside the layer and not a wall; holes and stairs count as open
+ */
+export function isOpenCell(layer: number[][] | undefined, row: number, col: number): boolean {
+  const value = layer?.[row]?.[col];
+  return value !== undefined && value !== CellType.Wall;
+}
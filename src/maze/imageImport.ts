@@ -0,0 +1,193 @@
+import { CellType } from './MazeDocument';
+
+/**
+ * RGBA pixels, e.g. an `ImageData` read back from a canvas
+ */
+export interface ImagePixels {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+/**
+ * One flag per pixel, 1 where the image is dark enough to be a wall
+ */
+export interface ImageMask {
+  width: number;
+  height: number;
+  dark: Uint8Array;
+}
+
+export interface ImageBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageGridOptions {
+  rows: number;
+  cols: number;
+  /** Area sampled; defaults to the box around the dark pixels */
+  bounds?: ImageBounds | null;
+  /** Share of dark pixels that makes a cell a wall (0-1) */
+  fill?: number;
+}
+
+/**
+ * Mark pixels darker than the threshold (0-255 luminance); transparent pixels count as light
+ */
+export function thresholdImage(image: ImagePixels, threshold: number = 128): ImageMask {
+  const dark = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < dark.length; i += 1) {
+    const r = image.data[i * 4];
+    const g = image.data[i * 4 + 1];
+    const b = image.data[i * 4 + 2];
+    const a = image.data[i * 4 + 3];
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    dark[i] = a >= 128 && luminance < threshold ? 1 : 0;
+  }
+  return { width: image.width, height: image.height, dark };
+}
+
+/**
+ * Smallest box holding every dark pixel, which trims screenshot margins
+ */
+export function findDarkBounds(mask: ImageMask): ImageBounds | null {
+  let minX = mask.width;
+  let minY = mask.height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < mask.height; y += 1) {
+    for (let x = 0; x < mask.width; x += 1) {
+      if (!mask.dark[y * mask.width + x]) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Estimate the cell size in pixels from the lengths of wall and path runs.
+ * Runs span whole cells, so the shortest common run length is one cell.
+ */
+export function detectCellSize(mask: ImageMask, bounds: ImageBounds): number | null {
+  const counts: number[] = [];
+  const addRuns = (length: number, at: (i: number) => number) => {
+    let run = 1;
+    for (let i = 1; i < length; i += 1) {
+      if (at(i) === at(i - 1)) {
+        run += 1;
+        continue;
+      }
+      // Runs touching the bounds may be cut short, only inner ones count
+      if (i - run > 0) counts[run] = (counts[run] ?? 0) + 1;
+      run = 1;
+    }
+  };
+
+  for (let y = bounds.y; y < bounds.y + bounds.height; y += 1) {
+    addRuns(bounds.width, i => mask.dark[y * mask.width + bounds.x + i]);
+  }
+  for (let x = bounds.x; x < bounds.x + bounds.width; x += 1) {
+    addRuns(bounds.height, i => mask.dark[(bounds.y + i) * mask.width + x]);
+  }
+
+  // Anti-aliased edges smear run lengths by a pixel, so score each length with its neighbours
+  const windowScore = (length: number) =>
+    (counts[length - 1] ?? 0) + (counts[length] ?? 0) + (counts[length + 1] ?? 0);
+  let best = 0;
+  for (let length = 2; length < counts.length; length += 1) {
+    best = Math.max(best, windowScore(length));
+  }
+  if (best === 0) return null;
+
+  for (let length = 2; length < counts.length; length += 1) {
+    if (windowScore(length) < best * 0.25) continue;
+    let total = 0;
+    let weight = 0;
+    for (let l = length - 1; l <= length + 1; l += 1) {
+      total += l * (counts[l] ?? 0);
+      weight += counts[l] ?? 0;
+    }
+    return total / weight;
+  }
+  return null;
+}
+
+/**
+ * Guess rows and columns for an image: the dark bounds divided by the cell size
+ */
+export function detectGridSize(
+  mask: ImageMask
+): { rows: number; cols: number; bounds: ImageBounds } | null {
+  const bounds = findDarkBounds(mask);
+  if (!bounds) return null;
+  const cellSize = detectCellSize(mask, bounds);
+  if (!cellSize) return null;
+  return {
+    rows: Math.max(1, Math.round(bounds.height / cellSize)),
+    cols: Math.max(1, Math.round(bounds.width / cellSize)),
+    bounds,
+  };
+}
+
+/**
+ * Sample the mask into a grid listed top-down, as the image and the editor show it
+ */
+export function maskToDisplayRows(mask: ImageMask, options: ImageGridOptions): number[][] {
+  const bounds = options.bounds ?? findDarkBounds(mask);
+  const fill = options.fill ?? 0.5;
+  const grid: number[][] = [];
+  for (let r = 0; r < options.rows; r += 1) {
+    const row: number[] = [];
+    for (let c = 0; c < options.cols; c += 1) {
+      if (!bounds) {
+        row.push(CellType.Path);
+        continue;
+      }
+      // Sample the middle of each cell so neighbouring walls do not bleed in
+      const cellWidth = bounds.width / options.cols;
+      const cellHeight = bounds.height / options.rows;
+      const x0 = Math.floor(bounds.x + (c + 0.25) * cellWidth);
+      const x1 = Math.max(x0 + 1, Math.ceil(bounds.x + (c + 0.75) * cellWidth));
+      const y0 = Math.floor(bounds.y + (r + 0.25) * cellHeight);
+      const y1 = Math.max(y0 + 1, Math.ceil(bounds.y + (r + 0.75) * cellHeight));
+      let dark = 0;
+      let total = 0;
+      for (let y = y0; y < Math.min(y1, mask.height); y += 1) {
+        for (let x = x0; x < Math.min(x1, mask.width); x += 1) {
+          dark += mask.dark[y * mask.width + x];
+          total += 1;
+        }
+      }
+      row.push(total > 0 && dark / total >= fill ? CellType.Wall : CellType.Path);
+    }
+    grid.push(row);
+  }
+  return grid;
+}
+
+/**
+ * Convert an image to single-layer maze data (rows bottom-up) for `MainApp.updateMaze`.
+ * Without rows and cols the grid size is detected from the image.
+ */
+export function imageToMaze(
+  image: ImagePixels,
+  options: Partial<ImageGridOptions> & { threshold?: number } = {}
+): number[][][] {
+  const mask = thresholdImage(image, options.threshold);
+  let { rows, cols, bounds } = options;
+  if (!rows || !cols) {
+    const detected = detectGridSize(mask);
+    if (!detected) return [];
+    rows = detected.rows;
+    cols = detected.cols;
+    bounds = bounds ?? detected.bounds;
+  }
+  return [maskToDisplayRows(mask, { rows, cols, bounds, fill: options.fill }).reverse()];
+}
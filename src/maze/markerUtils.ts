@@ -1,6 +1,8 @@
 export interface MarkerCell {
   row: number;
   col: number;
+  /** Layer of a multi-layer maze, 0 when omitted */
+  layer?: number;
 }
 
 export interface MazeMarkers {
@@ -0,0 +1,259 @@
+import type { GUISettings } from '../gui';
+import type { MarkerCell } from './markerUtils';
+import { validateMaze } from './validateMaze';
+import { LayerMarkers, MazeDocument, MazeMetadata, createMazeDocument } from './MazeDocument';
+
+export const MAZE_FILE_FORMAT = 'mazesolver3d';
+export const MAZE_FILE_VERSION = 1;
+
+/**
+ * Scene appearance saved alongside the maze; panel toggles stay local
+ */
+export type MazeFileSettings = Pick<
+  GUISettings,
+  'backgroundColor' | 'wallColor' | 'floorColor' | 'wallOpacity' | 'floorOpacity' | 'showEdges'
+>;
+
+/**
+ * On-disk layout of version 1. Rows are bottom-up, as in `MazeDocument`.
+ */
+export interface MazeFile {
+  format: typeof MAZE_FILE_FORMAT;
+  version: typeof MAZE_FILE_VERSION;
+  maze: {
+    rows: number;
+    cols: number;
+    layers: { cells: number[][]; markers: LayerMarkers }[];
+    metadata: MazeMetadata;
+  };
+  settings: Partial<MazeFileSettings>;
+}
+
+export interface MazeFileReadResult {
+  valid: boolean;
+  document: MazeDocument | null;
+  settings: Partial<MazeFileSettings>;
+  errors: string[];
+}
+
+const SETTING_TYPES: Record<keyof MazeFileSettings, 'string' | 'number' | 'boolean'> = {
+  backgroundColor: 'string',
+  wallColor: 'string',
+  floorColor: 'string',
+  wallOpacity: 'number',
+  floorOpacity: 'number',
+  showEdges: 'boolean',
+};
+
+/**
+ * Upgrades keyed by the version they start from; each returns the next version.
+ * Version 0 is a bare `number[][][]`, e.g. a pasted `getMazeData()` result.
+ */
+const MIGRATIONS: Record<number, (file: unknown) => unknown> = {
+  0: data => ({
+    format: MAZE_FILE_FORMAT,
+    version: 1,
+    // Markers come from the border openings, as when the grid is loaded directly
+    maze: validateMaze(data).valid
+      ? createMazeDocument(data as number[][][])
+      : { layers: Array.isArray(data) ? data.map(cells => ({ cells })) : [] },
+    settings: {},
+  }),
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+/**
+ * Serialize a maze and the scene settings to version 1 JSON
+ */
+export function serializeMazeFile(
+  document: MazeDocument,
+  settings: Partial<MazeFileSettings> = {}
+): string {
+  const picked: Partial<MazeFileSettings> = {};
+  (Object.keys(SETTING_TYPES) as (keyof MazeFileSettings)[]).forEach(key => {
+    if (settings[key] !== undefined) {
+      (picked as Record<string, unknown>)[key] = settings[key];
+    }
+  });
+
+  const file: MazeFile = {
+    format: MAZE_FILE_FORMAT,
+    version: MAZE_FILE_VERSION,
+    maze: {
+      rows: document.rows,
+      cols: document.cols,
+      layers: document.layers.map(layer => ({
+        cells: layer.cells.map(row => row.slice()),
+        markers: { start: layer.markers.start, end: layer.markers.end },
+      })),
+      metadata: { ...document.metadata },
+    },
+    settings: picked,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Bring any known version up to the current one
+ */
+function migrate(raw: unknown): { file: unknown; errors: string[] } {
+  const declared = Array.isArray(raw) ? 0 : isObject(raw) ? raw.version : undefined;
+  if (!isInteger(declared)) {
+    return { file: null, errors: ['Missing or invalid "version"'] };
+  }
+
+  let file = raw;
+  let version = declared;
+  if (version > MAZE_FILE_VERSION) {
+    return {
+      file: null,
+      errors: [`File version ${version} is newer than supported version ${MAZE_FILE_VERSION}`],
+    };
+  }
+
+  while (version < MAZE_FILE_VERSION) {
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) {
+      return { file: null, errors: [`No migration from version ${version}`] };
+    }
+    file = upgrade(file);
+    const next = isObject(file) ? file.version : undefined;
+    if (!isInteger(next) || next <= version) {
+      return { file: null, errors: [`Migration from version ${version} failed`] };
+    }
+    version = next;
+  }
+  return { file, errors: [] };
+}
+
+function readMarker(value: unknown, at: string, errors: string[]): MarkerCell | null {
+  if (value === null || value === undefined) return null;
+  if (!isObject(value) || !isInteger(value.row) || !isInteger(value.col)) {
+    errors.push(`${at} must be null or { row, col } integers`);
+    return null;
+  }
+  return { row: value.row, col: value.col };
+}
+
+function readMetadata(value: unknown, errors: string[]): Partial<MazeMetadata> {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    errors.push('"maze.metadata" must be an object');
+    return {};
+  }
+  const metadata: Partial<MazeMetadata> = {};
+  if (typeof value.name === 'string') metadata.name = value.name;
+  if (typeof value.generator === 'string') metadata.generator = value.generator;
+  if (value.seed !== undefined && value.seed !== null) {
+    if (isInteger(value.seed)) {
+      metadata.seed = value.seed;
+    } else {
+      errors.push('"maze.metadata.seed" must be an integer or null');
+    }
+  }
+  return metadata;
+}
+
+function readSettings(value: unknown, errors: string[]): Partial<MazeFileSettings> {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    errors.push('"settings" must be an object');
+    return {};
+  }
+  const settings: Record<string, unknown> = {};
+  Object.entries(SETTING_TYPES).forEach(([key, type]) => {
+    if (value[key] === undefined) return;
+    if (typeof value[key] === type) {
+      settings[key] = value[key];
+    } else {
+      errors.push(`"settings.${key}" must be a ${type}`);
+    }
+  });
+  return settings as Partial<MazeFileSettings>;
+}
+
+/**
+ * Parse, migrate and validate a maze file. Unknown settings are ignored;
+ * anything that would not load in the scene is reported in `errors`.
+ */
+export function readMazeFile(text: string): MazeFileReadResult {
+  const failed = (errors: string[]): MazeFileReadResult => ({
+    valid: false,
+    document: null,
+    settings: {},
+    errors,
+  });
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return failed([`Not valid JSON: ${(error as Error).message}`]);
+  }
+  if (isObject(raw) && raw.format !== undefined && raw.format !== MAZE_FILE_FORMAT) {
+    return failed([`Unknown format "${String(raw.format)}"`]);
+  }
+
+  const migrated = migrate(raw);
+  if (migrated.errors.length > 0) return failed(migrated.errors);
+
+  const file = isObject(migrated.file) ? migrated.file : {};
+  const maze = isObject(file.maze) ? file.maze : {};
+  const layers = maze.layers;
+  if (!Array.isArray(layers)) {
+    return failed(['"maze.layers" must be an array']);
+  }
+
+  const errors: string[] = [];
+  const data: unknown[] = [];
+  let start: MarkerCell | null = null;
+  let end: MarkerCell | null = null;
+  layers.forEach((layer: unknown, layerIndex: number) => {
+    if (!isObject(layer)) {
+      errors.push(`"maze.layers[${layerIndex}]" must be an object`);
+      return;
+    }
+    data.push(layer.cells);
+    const markers = isObject(layer.markers) ? layer.markers : {};
+    const at = `"maze.layers[${layerIndex}].markers`;
+    const layerStart = readMarker(markers.start, `${at}.start"`, errors);
+    const layerEnd = readMarker(markers.end, `${at}.end"`, errors);
+    if (layerStart && !start) start = { ...layerStart, layer: layerIndex };
+    if (layerEnd && !end) end = { ...layerEnd, layer: layerIndex };
+  });
+  const metadata = readMetadata(maze.metadata, errors);
+  const settings = readSettings(file.settings, errors);
+  if (errors.length > 0) return failed(errors);
+
+  const validation = validateMaze(data, { start, end });
+  if (!validation.valid) {
+    return failed(validation.errors.map(error => error.message));
+  }
+
+  const document = createMazeDocument(data as number[][][], { start, end }, metadata);
+  const { rows, cols } = maze;
+  const missing = (['rows', 'cols'] as const).filter(key => !isInteger(maze[key]));
+  if (missing.length > 0) {
+    return failed(missing.map(key => `Missing or invalid "maze.${key}"`));
+  }
+  if (rows !== document.rows || cols !== document.cols) {
+    return failed([
+      `Declared size ${rows}x${cols} does not match the cells (${document.rows}x${document.cols})`,
+    ]);
+  }
+  return { valid: true, document, settings, errors: [] };
+}
+
+/**
+ * Suggested download name, e.g. `maze-backtracker-12345.json`
+ */
+export function mazeFileName(document: MazeDocument): string {
+  const parts = ['maze', document.metadata.generator, document.metadata.seed].filter(
+    part => part !== null && part !== ''
+  );
+  return `${parts.join('-')}.json`;
+}
@@ -0,0 +1,221 @@
+import * as THREE from 'three';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter';
+import type { MazeConfig } from './Maze';
+import { CellType } from './MazeDocument';
+
+export interface MazeSolidOptions extends MazeConfig {
+  /** Multiplier applied to every coordinate, e.g. millimetres per cell unit */
+  scale?: number;
+}
+
+type Box = [minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number];
+
+/**
+ * Corner offsets of each voxel face, wound counter-clockwise seen from outside
+ */
+const FACES: { dir: [number, number, number]; corners: [number, number, number][] }[] = [
+  {
+    dir: [1, 0, 0],
+    corners: [
+      [1, 0, 0],
+      [1, 1, 0],
+      [1, 1, 1],
+      [1, 0, 1],
+    ],
+  },
+  {
+    dir: [-1, 0, 0],
+    corners: [
+      [0, 0, 0],
+      [0, 0, 1],
+      [0, 1, 1],
+      [0, 1, 0],
+    ],
+  },
+  {
+    dir: [0, 1, 0],
+    corners: [
+      [0, 1, 0],
+      [0, 1, 1],
+      [1, 1, 1],
+      [1, 1, 0],
+    ],
+  },
+  {
+    dir: [0, -1, 0],
+    corners: [
+      [0, 0, 0],
+      [1, 0, 0],
+      [1, 0, 1],
+      [0, 0, 1],
+    ],
+  },
+  {
+    dir: [0, 0, 1],
+    corners: [
+      [0, 0, 1],
+      [1, 0, 1],
+      [1, 1, 1],
+      [0, 1, 1],
+    ],
+  },
+  {
+    dir: [0, 0, -1],
+    corners: [
+      [0, 0, 0],
+      [0, 1, 0],
+      [1, 1, 0],
+      [1, 0, 0],
+    ],
+  },
+];
+
+/**
+ * Boxes matching the scene layout: wall segments between neighbouring wall cells
+ * (plus a post at each wall cell so corners are filled), a slab under layer 0 and
+ * one floor tile per non-hole cell on upper layers
+ */
+function collectBoxes(data: number[][][], config: MazeConfig): Box[] {
+  const wallHeight = config.wallHeight ?? 1;
+  const thickness = config.wallThickness ?? 0.1;
+  const size = config.cellSize ?? 1;
+  const half = thickness / 2;
+  const boxes: Box[] = [];
+
+  data.forEach((layer, layerIndex) => {
+    const base = layerIndex * wallHeight;
+    const top = base + wallHeight;
+    const rows = layer.length;
+    const cols = layer[0]?.length ?? 0;
+
+    if (layerIndex === 0) {
+      boxes.push([-size / 2, -thickness, -(rows - 0.5) * size, (cols - 0.5) * size, 0, size / 2]);
+    }
+
+    layer.forEach((row, r) => {
+      row.forEach((cell, c) => {
+        const x = c * size;
+        const z = -r * size;
+        if (layerIndex > 0 && cell !== CellType.Hole) {
+          boxes.push([
+            x - size / 2,
+            base - thickness,
+            z - size / 2,
+            x + size / 2,
+            base,
+            z + size / 2,
+          ]);
+        }
+        if (cell !== CellType.Wall) return;
+
+        const right = row[c + 1] === CellType.Wall;
+        const up = layer[r + 1]?.[c] === CellType.Wall;
+        const connected =
+          right || up || row[c - 1] === CellType.Wall || layer[r - 1]?.[c] === CellType.Wall;
+        if (connected) {
+          boxes.push([x - half, base, z - half, x + half, top, z + half]);
+        }
+        if (right) {
+          boxes.push([x, base, z - half, x + size, top, z + half]);
+        }
+        if (up) {
+          boxes.push([x - half, base, z - size, x + half, top, z]);
+        }
+      });
+    });
+  });
+
+  return boxes;
+}
+
+/**
+ * Union of the maze boxes as one closed, indexed mesh (three.js Y-up, rows along -Z).
+ * The boxes are rasterised onto the grid of their own edges and only faces between
+ * solid and empty voxels are kept, so vertices are shared and no faces overlap.
+ */
+export function buildMazeSolid(
+  data: number[][][],
+  options: MazeSolidOptions = {}
+): THREE.BufferGeometry {
+  const boxes = collectBoxes(data, options);
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+  const axes = [0, 1, 2].map(axis => {
+    const values = new Set<number>();
+    boxes.forEach(box => {
+      values.add(round(box[axis]));
+      values.add(round(box[axis + 3]));
+    });
+    const sorted = Array.from(values).sort((a, b) => a - b);
+    return { values: sorted, index: new Map(sorted.map((value, i) => [value, i])) };
+  });
+  const [nx, ny, nz] = axes.map(axis => Math.max(0, axis.values.length - 1));
+  const solid = new Uint8Array(nx * ny * nz);
+  const voxel = (i: number, j: number, k: number) => (k * ny + j) * nx + i;
+
+  boxes.forEach(box => {
+    const [i0, j0, k0] = [0, 1, 2].map(axis => axes[axis].index.get(round(box[axis])) as number);
+    const [i1, j1, k1] = [0, 1, 2].map(
+      axis => axes[axis].index.get(round(box[axis + 3])) as number
+    );
+    for (let k = k0; k < k1; k += 1) {
+      for (let j = j0; j < j1; j += 1) {
+        for (let i = i0; i < i1; i += 1) {
+          solid[voxel(i, j, k)] = 1;
+        }
+      }
+    }
+  });
+
+  const isSolid = (i: number, j: number, k: number) =>
+    i >= 0 && j >= 0 && k >= 0 && i < nx && j < ny && k < nz && solid[voxel(i, j, k)] === 1;
+
+  const scale = options.scale ?? 1;
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const vertices = new Map<number, number>();
+  const vertex = (i: number, j: number, k: number) => {
+    const key = (k * (ny + 1) + j) * (nx + 1) + i;
+    let index = vertices.get(key);
+    if (index === undefined) {
+      index = vertices.size;
+      vertices.set(key, index);
+      positions.push(
+        axes[0].values[i] * scale,
+        axes[1].values[j] * scale,
+        axes[2].values[k] * scale
+      );
+    }
+    return index;
+  };
+
+  for (let k = 0; k < nz; k += 1) {
+    for (let j = 0; j < ny; j += 1) {
+      for (let i = 0; i < nx; i += 1) {
+        if (!isSolid(i, j, k)) continue;
+        FACES.forEach(({ dir, corners }) => {
+          if (isSolid(i + dir[0], j + dir[1], k + dir[2])) return;
+          const [a, b, c, d] = corners.map(([di, dj, dk]) => vertex(i + di, j + dj, k + dk));
+          indices.push(a, b, c, a, c, d);
+        });
+      }
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  return geometry;
+}
+
+/**
+ * Binary STL of the maze solid, turned Z-up for slicers (rows run along +Y)
+ */
+export function mazeToSTL(data: number[][][], options: MazeSolidOptions = {}): ArrayBuffer {
+  const geometry = buildMazeSolid(data, options);
+  geometry.rotateX(Math.PI / 2);
+  const mesh = new THREE.Mesh(geometry);
+  const view = new STLExporter().parse(mesh, { binary: true });
+  geometry.dispose();
+  return view.buffer as ArrayBuffer;
+}
@@ -0,0 +1,127 @@
+import type { MarkerCell } from './markerUtils';
+import { validateMaze } from './validateMaze';
+import { CellType, MazeDocument, MazeMetadata, createMazeDocument } from './MazeDocument';
+
+/**
+ * Characters of the text format. Layers are separated by a blank line,
+ * layer 0 first; each layer is written top-down like the editor shows it.
+ */
+export const MAZE_TEXT_CHARS = {
+  wall: '#',
+  path: '.',
+  start: 'S',
+  end: 'E',
+  hole: 'v',
+  stairs: '^',
+} as const;
+
+export interface MazeTextReadResult {
+  valid: boolean;
+  document: MazeDocument | null;
+  errors: string[];
+}
+
+const CELL_CHARS: Record<number, string> = {
+  [CellType.Path]: MAZE_TEXT_CHARS.path,
+  [CellType.Wall]: MAZE_TEXT_CHARS.wall,
+  [CellType.Hole]: MAZE_TEXT_CHARS.hole,
+  [CellType.Stairs]: MAZE_TEXT_CHARS.stairs,
+};
+
+const CHAR_CELLS: Record<string, number> = {
+  [MAZE_TEXT_CHARS.path]: CellType.Path,
+  [MAZE_TEXT_CHARS.wall]: CellType.Wall,
+  [MAZE_TEXT_CHARS.hole]: CellType.Hole,
+  [MAZE_TEXT_CHARS.stairs]: CellType.Stairs,
+  [MAZE_TEXT_CHARS.start]: CellType.Path,
+  [MAZE_TEXT_CHARS.end]: CellType.Path,
+};
+
+/**
+ * Write a maze as text. Markers are only written on path cells, where `S`/`E`
+ * can stand in for `.` without losing the cell value.
+ */
+export function serializeMazeText(document: MazeDocument): string {
+  return document.layers
+    .map(layer => {
+      const lines = layer.cells.map(row => row.map(cell => CELL_CHARS[cell] ?? '?'));
+      const mark = (cell: MarkerCell | null, char: string) => {
+        if (cell && layer.cells[cell.row]?.[cell.col] === CellType.Path) {
+          lines[cell.row][cell.col] = char;
+        }
+      };
+      mark(layer.markers.start, MAZE_TEXT_CHARS.start);
+      mark(layer.markers.end, MAZE_TEXT_CHARS.end);
+      return lines
+        .reverse()
+        .map(line => line.join(''))
+        .join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Parse the text format into a document. Without any `S`/`E` the markers
+ * come from the border openings, as when a bare grid is loaded.
+ */
+export function parseMazeText(
+  text: string,
+  metadata: Partial<MazeMetadata> = {}
+): MazeTextReadResult {
+  const errors: string[] = [];
+  const blocks: { line: number; text: string }[][] = [];
+  let block: { line: number; text: string }[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trimEnd();
+    if (line.trim() === '') {
+      if (block.length > 0) blocks.push(block);
+      block = [];
+      return;
+    }
+    block.push({ line: index + 1, text: line });
+  });
+  if (block.length > 0) blocks.push(block);
+
+  let start: MarkerCell | null = null;
+  let end: MarkerCell | null = null;
+  const data = blocks.map((lines, layer) =>
+    lines
+      .map((entry, index) => {
+        // Text is top-down, maze rows are bottom-up
+        const row = lines.length - 1 - index;
+        return Array.from(entry.text).map((char, col) => {
+          const cell = CHAR_CELLS[char];
+          if (cell === undefined) {
+            errors.push(`Unknown character "${char}" on line ${entry.line}, column ${col + 1}`);
+            return CellType.Wall;
+          }
+          if (char === MAZE_TEXT_CHARS.start || char === MAZE_TEXT_CHARS.end) {
+            const name = char === MAZE_TEXT_CHARS.start ? 'start' : 'end';
+            const existing = name === 'start' ? start : end;
+            if (existing) {
+              errors.push(`More than one ${name} marker (line ${entry.line}, column ${col + 1})`);
+            } else if (name === 'start') {
+              start = { row, col, layer };
+            } else {
+              end = { row, col, layer };
+            }
+          }
+          return cell;
+        });
+      })
+      .reverse()
+  );
+
+  if (errors.length > 0) {
+    return { valid: false, document: null, errors };
+  }
+
+  const markers = start || end ? { start, end } : null;
+  const validation = validateMaze(data, markers);
+  if (!validation.valid) {
+    return { valid: false, document: null, errors: validation.errors.map(error => error.message) };
+  }
+
+  return { valid: true, document: createMazeDocument(data, markers, metadata), errors: [] };
+}
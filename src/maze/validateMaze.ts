@@ -0,0 +1,188 @@
+import type { MarkerCell, MazeMarkers } from './markerUtils';
+import { solveMaze } from '../solve';
+import { CellType } from './MazeDocument';
+
+export type MazeValidationCode =
+  | 'empty-maze'
+  | 'empty-layer'
+  | 'invalid-row'
+  | 'ragged-row'
+  | 'layer-dimensions'
+  | 'invalid-cell'
+  | 'marker-out-of-bounds'
+  | 'start-on-wall'
+  | 'end-on-wall'
+  | 'unreachable-end';
+
+export interface MazeValidationError {
+  code: MazeValidationCode;
+  message: string;
+  layer?: number;
+  row?: number;
+  col?: number;
+}
+
+export interface MazeValidationResult {
+  valid: boolean;
+  errors: MazeValidationError[];
+}
+
+const CELL_CODES = new Set<unknown>(Object.values(CellType));
+
+/**
+ * Most common non-empty row width of a layer, so a single bad row is the one
+ * reported (ties go to the width seen first)
+ */
+function rowWidth(layer: unknown[]): number {
+  const counts = new Map<number, number>();
+  layer.forEach(row => {
+    if (Array.isArray(row) && row.length > 0) {
+      counts.set(row.length, (counts.get(row.length) ?? 0) + 1);
+    }
+  });
+  let width = 0;
+  let best = 0;
+  counts.forEach((count, length) => {
+    if (count > best) {
+      width = length;
+      best = count;
+    }
+  });
+  return width;
+}
+
+/**
+ * Check the grid shape: every layer non-empty, rectangular and the same size
+ * as layer 0, with only known cell codes (holes need a layer below them,
+ * stairs one above)
+ */
+function validateGrid(data: unknown): MazeValidationError[] {
+  if (!Array.isArray(data) || data.length === 0) {
+    return [{ code: 'empty-maze', message: 'Maze has no layers' }];
+  }
+
+  const errors: MazeValidationError[] = [];
+  const firstLayer = data[0];
+  const rows = Array.isArray(firstLayer) ? firstLayer.length : 0;
+  const cols = Array.isArray(firstLayer) ? rowWidth(firstLayer) : 0;
+
+  data.forEach((layer: unknown, layerIndex) => {
+    if (!Array.isArray(layer) || layer.length === 0) {
+      errors.push({
+        code: 'empty-layer',
+        message: `Layer ${layerIndex} is empty`,
+        layer: layerIndex,
+      });
+      return;
+    }
+    const layerCols = rowWidth(layer);
+    if (layerIndex > 0 && (layer.length !== rows || layerCols !== cols)) {
+      errors.push({
+        code: 'layer-dimensions',
+        message: `Layer ${layerIndex} is ${layer.length}x${layerCols}, layer 0 is ${rows}x${cols}`,
+        layer: layerIndex,
+      });
+    }
+
+    layer.forEach((row: unknown, rowIndex) => {
+      if (!Array.isArray(row)) {
+        errors.push({
+          code: 'invalid-row',
+          message: `Layer ${layerIndex}, row ${rowIndex} is not a list of cells`,
+          layer: layerIndex,
+          row: rowIndex,
+        });
+        return;
+      }
+      if (row.length === 0 || row.length !== layerCols) {
+        errors.push({
+          code: 'ragged-row',
+          message: `Layer ${layerIndex}, row ${rowIndex} has ${row.length} cells, expected ${layerCols}`,
+          layer: layerIndex,
+          row: rowIndex,
+        });
+      }
+
+      row.forEach((cell: unknown, colIndex) => {
+        const at = `layer ${layerIndex}, row ${rowIndex}, col ${colIndex}`;
+        let message: string | null = null;
+        if (!CELL_CODES.has(cell)) {
+          message = `Unknown cell value ${String(cell)} at ${at}`;
+        } else if (cell === CellType.Hole && layerIndex === 0) {
+          message = `Hole at ${at} has no layer below`;
+        } else if (cell === CellType.Stairs && layerIndex === data.length - 1) {
+          message = `Stairs at ${at} have no layer above`;
+        }
+        if (!message) return;
+        errors.push({
+          code: 'invalid-cell',
+          message,
+          layer: layerIndex,
+          row: rowIndex,
+          col: colIndex,
+        });
+      });
+    });
+  });
+
+  return errors;
+}
+
+function validateMarker(
+  data: number[][][],
+  cell: MarkerCell,
+  name: 'Start' | 'End'
+): MazeValidationError | null {
+  const layer = cell.layer ?? 0;
+  const value = data[layer]?.[cell.row]?.[cell.col];
+  const position = { layer, row: cell.row, col: cell.col };
+  if (value === undefined) {
+    return {
+      code: 'marker-out-of-bounds',
+      message: `${name} (layer ${layer}, row ${cell.row}, col ${cell.col}) is outside the maze`,
+      ...position,
+    };
+  }
+  if (value === 1) {
+    return {
+      code: name === 'Start' ? 'start-on-wall' : 'end-on-wall',
+      message: `${name} (layer ${layer}, row ${cell.row}, col ${cell.col}) is on a wall`,
+      ...position,
+    };
+  }
+  return null;
+}
+
+/**
+ * Validate maze data (and optionally its markers) before it reaches the scene.
+ * Marker checks only run once the grid itself is well formed.
+ */
+export function validateMaze(data: unknown, markers?: MazeMarkers | null): MazeValidationResult {
+  const errors = validateGrid(data);
+  if (errors.length > 0 || !markers) {
+    return { valid: errors.length === 0, errors };
+  }
+
+  const grid = data as number[][][];
+  const { start, end } = markers;
+  if (start) {
+    const error = validateMarker(grid, start, 'Start');
+    if (error) errors.push(error);
+  }
+  if (end) {
+    const error = validateMarker(grid, end, 'End');
+    if (error) errors.push(error);
+  }
+
+  if (start && end && errors.length === 0 && !solveMaze('bfs', grid, markers).found) {
+    errors.push({
+      code: 'unreachable-end',
+      message: `End (row ${end.row}, col ${end.col}) cannot be reached from the start`,
+      layer: end.layer ?? 0,
+      row: end.row,
+      col: end.col,
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -1,6 +1,7 @@
 import './PreviewWindow.css';
 import { PREVIEW_COLORS } from './previewConstants';
-import { computeMarkersFromLayer } from '../maze/markerUtils';
+import type { MarkerCell } from '../maze/markerUtils';
+import { CellType, MazeDocument } from '../maze/MazeDocument';
 
 export interface PreviewWindowConfig {
   initialX?: number;
@@ -12,6 +13,18 @@ export interface PreviewWindowConfig {
   onClose?: () => void;
 }
 
+/**
+ * Cells painted over the maze, e.g. solver exploration state.
+ * The preview shows layer 0, cells on other layers are skipped.
+ */
+export interface PreviewOverlay {
+  visited?: MarkerCell[];
+  frontier?: MarkerCell[];
+  filled?: MarkerCell[];
+  deadEnds?: MarkerCell[];
+  path?: MarkerCell[];
+}
+
 /**
  * PreviewWindow - Draggable 2D maze preview window
  */
@@ -24,9 +37,11 @@ export class PreviewWindow {
   private hideButton: HTMLButtonElement;
   private gridToggleButton: HTMLButtonElement;
   private footer!: HTMLDivElement;
+  private seedLabel: HTMLSpanElement;
   private legend: HTMLDivElement;
-  private startCell: { row: number; col: number } | null = null;
-  private endCell: { row: number; col: number } | null = null;
+  private startCell: MarkerCell | null = null;
+  private endCell: MarkerCell | null = null;
+  private overlay: PreviewOverlay | null = null;
   private showGrid: boolean = false;
   private isClosed: boolean = false;
   private onHide?: () => void;
@@ -84,6 +99,7 @@ export class PreviewWindow {
     this.container.style.setProperty('--preview-surface-top', PREVIEW_COLORS.surfaceTop);
     this.container.style.setProperty('--preview-wall', PREVIEW_COLORS.wall);
     this.container.style.setProperty('--preview-path', PREVIEW_COLORS.path);
+    this.container.style.setProperty('--preview-stairs', PREVIEW_COLORS.stairs);
     this.container.style.setProperty('--preview-grid', PREVIEW_COLORS.grid);
     this.container.style.setProperty('--preview-border', PREVIEW_COLORS.border);
     this.container.style.setProperty('--preview-border-soft', PREVIEW_COLORS.borderSoft);
@@ -138,6 +154,7 @@ export class PreviewWindow {
     this.legend.innerHTML =
       '<span class="preview-legend-item"><i class="preview-swatch wall"></i>Wall</span>' +
       '<span class="preview-legend-item"><i class="preview-swatch path"></i>Path</span>' +
+      '<span class="preview-legend-item"><i class="preview-swatch stairs"></i>Stairs</span>' +
       '<span class="preview-legend-item"><i class="preview-swatch start"></i>Start</span>' +
       '<span class="preview-legend-item"><i class="preview-swatch end"></i>End</span>';
 
@@ -146,6 +163,11 @@ export class PreviewWindow {
     this.footer.className = 'preview-footer';
     this.footer.appendChild(this.gridToggleButton);
 
+    // Create seed label
+    this.seedLabel = document.createElement('span');
+    this.seedLabel.className = 'preview-seed';
+    this.footer.appendChild(this.seedLabel);
+
     // Create canvas
     this.canvas = document.createElement('canvas');
     this.canvas.className = 'preview-canvas';
@@ -253,27 +275,28 @@ export class PreviewWindow {
   }
 
   /**
-   * Update maze data and redraw
+   * Show layer 0 of a maze document with its markers and seed
    */
-  public updateMaze(
-    mazeData: number[][],
-    markers?: {
-      start?: { row: number; col: number } | null;
-      end?: { row: number; col: number } | null;
-    }
-  ): void {
-    this.mazeData = mazeData;
-    if (markers) {
-      this.startCell = markers.start ?? null;
-      this.endCell = markers.end ?? null;
-    } else {
-      const computed = computeMarkersFromLayer(mazeData);
-      const start = computed?.start ?? null;
-      const end = computed?.end ?? null;
-      this.startCell = start;
-      this.endCell = end;
-    }
-    this.layout = this.computeLayout(mazeData);
+  public showDocument(document: MazeDocument): void {
+    const layer = document.layers[0];
+    this.mazeData = layer ? layer.cells : null;
+    this.startCell = layer?.markers.start ?? null;
+    this.endCell = layer?.markers.end ?? null;
+    this.overlay = null;
+    this.layout = this.mazeData ? this.computeLayout(this.mazeData) : null;
+
+    const { seed, generator } = document.metadata;
+    this.seedLabel.textContent = seed === null ? '' : `Seed: ${seed}`;
+    this.seedLabel.title =
+      seed === null ? '' : `Seed used to generate this maze${generator ? ` (${generator})` : ''}`;
+    this.render();
+  }
+
+  /**
+   * Paint exploration cells over the maze; null removes the overlay
+   */
+  public setOverlay(overlay: PreviewOverlay | null): void {
+    this.overlay = overlay;
     this.render();
   }
 
@@ -311,7 +334,13 @@ export class PreviewWindow {
         const x = offsetX + col * cellSize;
         const y = offsetY + (rows - 1 - row) * cellSize;
 
-        const nextFill = mazeRow[col] === 1 ? PREVIEW_COLORS.wall : PREVIEW_COLORS.path;
+        const value = mazeRow[col];
+        const nextFill =
+          value === CellType.Wall
+            ? PREVIEW_COLORS.wall
+            : value === CellType.Stairs
+              ? PREVIEW_COLORS.stairs
+              : PREVIEW_COLORS.path;
         if (currentFill !== nextFill) {
           currentFill = nextFill;
           this.ctx.fillStyle = currentFill;
@@ -326,6 +355,10 @@ export class PreviewWindow {
       }
     }
 
+    if (this.overlay) {
+      this.drawOverlay(this.overlay, rows, cellSize, offsetX, offsetY);
+    }
+
     const hasSameCell =
       this.startCell &&
       this.endCell &&
@@ -374,6 +407,32 @@ export class PreviewWindow {
     return { rows, cols, cellSize, offsetX, offsetY };
   }
 
+  private drawOverlay(
+    overlay: PreviewOverlay,
+    rows: number,
+    cellSize: number,
+    offsetX: number,
+    offsetY: number
+  ): void {
+    const layers: [MarkerCell[] | undefined, string, number][] = [
+      [overlay.visited, PREVIEW_COLORS.visited, 0],
+      [overlay.frontier, PREVIEW_COLORS.frontier, 0],
+      [overlay.filled, PREVIEW_COLORS.filled, 0],
+      [overlay.deadEnds, PREVIEW_COLORS.deadEnd, 0],
+      [overlay.path, PREVIEW_COLORS.solution, cellSize * 0.2],
+    ];
+    layers.forEach(([cells, color, inset]) => {
+      if (!cells || cells.length === 0) return;
+      this.ctx.fillStyle = color;
+      cells.forEach(cell => {
+        if ((cell.layer ?? 0) !== 0) return;
+        const x = offsetX + cell.col * cellSize;
+        const y = offsetY + (rows - 1 - cell.row) * cellSize;
+        this.ctx.fillRect(x + inset, y + inset, cellSize - inset * 2, cellSize - inset * 2);
+      });
+    });
+  }
+
   private drawMarker(
     cell: { row: number; col: number },
     rows: number,
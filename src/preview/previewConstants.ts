@@ -4,6 +4,7 @@ export const PREVIEW_COLORS = {
   surfaceTop: '#4a4a4a',
   wall: '#808080',
   path: '#c0c0c0',
+  stairs: '#16a085',
   grid: '#1a1a1a',
   border: '#1a1a1a',
   borderSoft: '#2a2a2a',
@@ -21,4 +22,11 @@ export const PREVIEW_COLORS = {
   markerBoth: '#f1c40f',
   markerStroke: '#111',
   markerText: '#f6f6f6',
+  visited: '#5dade2',
+  frontier: '#f7dc6f',
+  solution: '#ff8c1a',
+  filled: '#5a4a6a',
+  deadEnd: '#c0392b',
+  printText: '#1a1a1a',
+  printTextMuted: '#5a5a5a',
 };
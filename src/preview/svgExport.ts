@@ -0,0 +1,234 @@
+import { PREVIEW_COLORS } from './previewConstants';
+import type { MarkerCell } from '../maze/markerUtils';
+import { CellType, MazeDocument } from '../maze/MazeDocument';
+
+export type SvgWallStyle = 'cells' | 'lines';
+export type PaperSize = 'a4' | 'letter';
+
+export interface SvgExportOptions {
+  /** Walls as filled cells (like the preview) or as centre lines (like the 3D scene) */
+  wallStyle?: SvgWallStyle;
+  paper?: PaperSize;
+  /** Route to draw on top, cells on other layers are skipped */
+  solution?: MarkerCell[] | null;
+  /** Title, seed and layer number under the maze */
+  footer?: boolean;
+}
+
+/** Paper sizes in millimetres, portrait */
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 },
+};
+
+const MARGIN = 15;
+const FOOTER_HEIGHT = 12;
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Page size in millimetres; pages turn landscape for mazes wider than tall
+ */
+function pageSize(document: MazeDocument, paper: PaperSize = 'a4') {
+  const { width, height } = PAPER_SIZES[paper];
+  return document.cols > document.rows ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Elements of one layer's page in millimetres, background included. Rows are
+ * drawn bottom-up like the preview, paths are left as bare paper to save ink.
+ */
+function layerSheet(
+  document: MazeDocument,
+  layerIndex: number,
+  options: SvgExportOptions
+): string[] {
+  const layer = document.layers[layerIndex];
+  const { rows, cols } = document;
+  const { width, height } = pageSize(document, options.paper);
+  const footer = options.footer ?? true;
+
+  const areaWidth = width - MARGIN * 2;
+  const areaHeight = height - MARGIN * 2 - (footer ? FOOTER_HEIGHT : 0);
+  const cell = Math.min(areaWidth / Math.max(cols, 1), areaHeight / Math.max(rows, 1));
+  const left = MARGIN + (areaWidth - cell * cols) / 2;
+  const top = MARGIN + (areaHeight - cell * rows) / 2;
+  const x = (col: number) => round(left + col * cell);
+  const y = (row: number) => round(top + (rows - 1 - row) * cell);
+  const cx = (col: number) => round(left + (col + 0.5) * cell);
+  const cy = (row: number) => round(top + (rows - 1 - row + 0.5) * cell);
+  const size = round(cell);
+
+  const parts: string[] = [];
+  const cells = layer?.cells ?? [];
+  const isWall = (row: number, col: number) => cells[row]?.[col] === CellType.Wall;
+
+  // Walls
+  if (options.wallStyle === 'lines') {
+    const segments: string[] = [];
+    cells.forEach((cellRow, row) => {
+      cellRow.forEach((_, col) => {
+        if (!isWall(row, col)) return;
+        if (isWall(row, col + 1)) {
+          segments.push(`M${cx(col)} ${cy(row)}H${cx(col + 1)}`);
+        }
+        if (isWall(row + 1, col)) {
+          segments.push(`M${cx(col)} ${cy(row)}V${cy(row + 1)}`);
+        }
+      });
+    });
+    parts.push(
+      `<path d="${segments.join('')}" fill="none" stroke="${PREVIEW_COLORS.printText}" ` +
+        `stroke-width="${round(cell * 0.2)}" stroke-linecap="square"/>`
+    );
+  } else {
+    const rects: string[] = [];
+    cells.forEach((cellRow, row) => {
+      cellRow.forEach((_, col) => {
+        if (isWall(row, col)) rects.push(`M${x(col)} ${y(row)}h${size}v${size}h${-size}z`);
+      });
+    });
+    parts.push(`<path d="${rects.join('')}" fill="${PREVIEW_COLORS.wall}"/>`);
+  }
+
+  // Holes point down to the layer below, stairs up to the layer above
+  const arrows: string[] = [];
+  cells.forEach((cellRow, row) => {
+    cellRow.forEach((value, col) => {
+      const r = round(cell * 0.3);
+      const d = round(r * 2);
+      if (value === CellType.Hole) {
+        arrows.push(`M${round(cx(col) - r)} ${round(cy(row) - r)}h${d}l${-r} ${d}z`);
+      } else if (value === CellType.Stairs) {
+        arrows.push(`M${round(cx(col) - r)} ${round(cy(row) + r)}h${d}l${-r} ${-d}z`);
+      }
+    });
+  });
+  if (arrows.length > 0) {
+    parts.push(`<path d="${arrows.join('')}" fill="${PREVIEW_COLORS.surfaceTop}"/>`);
+  }
+
+  // Solution, split wherever the route leaves this layer
+  const runs: MarkerCell[][] = [];
+  let run: MarkerCell[] = [];
+  (options.solution ?? []).forEach(step => {
+    if ((step.layer ?? 0) !== layerIndex) {
+      if (run.length > 0) runs.push(run);
+      run = [];
+      return;
+    }
+    run.push(step);
+  });
+  if (run.length > 0) runs.push(run);
+  runs.forEach(steps => {
+    const points = steps.map(step => `${cx(step.col)},${cy(step.row)}`).join(' ');
+    parts.push(
+      `<polyline points="${points}" fill="none" stroke="${PREVIEW_COLORS.solution}" ` +
+        `stroke-width="${round(cell * 0.3)}" stroke-linecap="round" stroke-linejoin="round"/>`
+    );
+  });
+
+  // Markers
+  const { start, end } = layer?.markers ?? { start: null, end: null };
+  const sameCell = start && end && start.row === end.row && start.col === end.col;
+  const marker = (at: MarkerCell, color: string) =>
+    parts.push(
+      `<rect x="${x(at.col)}" y="${y(at.row)}" width="${size}" height="${size}" ` +
+        `fill="${color}" fill-opacity="0.85"/>`
+    );
+  if (sameCell && start) {
+    marker(start, PREVIEW_COLORS.markerBoth);
+  } else {
+    if (start) marker(start, PREVIEW_COLORS.markerStart);
+    if (end) marker(end, PREVIEW_COLORS.markerEnd);
+  }
+
+  // Outline of the grid
+  parts.push(
+    `<rect x="${x(0)}" y="${round(top)}" width="${round(cell * cols)}" height="${round(cell * rows)}" ` +
+      `fill="none" stroke="${PREVIEW_COLORS.border}" stroke-width="0.3"/>`
+  );
+
+  if (footer) {
+    const { name, seed, generator } = document.metadata;
+    const details = [
+      seed !== null ? `Seed ${seed}` : null,
+      generator,
+      `${cols}x${rows}`,
+      document.layers.length > 1 ? `Layer ${layerIndex + 1} of ${document.layers.length}` : null,
+    ].filter(Boolean);
+    const baseline = round(height - MARGIN);
+    parts.push(
+      `<text x="${MARGIN}" y="${baseline}" font-family="sans-serif" font-size="5" ` +
+        `fill="${PREVIEW_COLORS.printText}">${escapeXml(name ?? 'Maze')}</text>`,
+      `<text x="${round(width - MARGIN)}" y="${baseline}" font-family="sans-serif" ` +
+        `font-size="3.5" text-anchor="end" fill="${PREVIEW_COLORS.printTextMuted}">` +
+        `${escapeXml(details.join(' · '))}</text>`
+    );
+  }
+
+  return [`<rect width="${round(width)}" height="${round(height)}" fill="#ffffff"/>`, ...parts];
+}
+
+const svgRoot = (width: number, height: number, body: string[]) =>
+  [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}mm" height="${round(height)}mm" ` +
+      `viewBox="0 0 ${round(width)} ${round(height)}">`,
+    ...body,
+    '</svg>',
+  ].join('\n');
+
+/**
+ * One printable page for a layer
+ */
+export function mazeLayerToSVG(
+  document: MazeDocument,
+  layerIndex: number = 0,
+  options: SvgExportOptions = {}
+): string {
+  const { width, height } = pageSize(document, options.paper);
+  return svgRoot(width, height, layerSheet(document, layerIndex, options));
+}
+
+/**
+ * Every layer in one file, pages stacked top to bottom with layer 0 first
+ */
+export function mazeToSVG(document: MazeDocument, options: SvgExportOptions = {}): string {
+  const { width, height } = pageSize(document, options.paper);
+  const pages = document.layers.map((_, layerIndex) => [
+    `<g transform="translate(0 ${round(layerIndex * height)})">`,
+    ...layerSheet(document, layerIndex, options),
+    '</g>',
+  ]);
+  return svgRoot(width, height * pages.length, pages.flat());
+}
+
+/**
+ * One page per layer, layer 0 first
+ */
+export function mazeToSVGPages(document: MazeDocument, options: SvgExportOptions = {}): string[] {
+  return document.layers.map((_, layerIndex) => mazeLayerToSVG(document, layerIndex, options));
+}
+
+/**
+ * HTML that prints each layer on its own sheet, e.g. to save the whole maze as a PDF
+ */
+export function mazeToPrintHTML(document: MazeDocument, options: SvgExportOptions = {}): string {
+  const { width, height } = pageSize(document, options.paper);
+  const pages = mazeToSVGPages(document, options);
+  return [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>${escapeXml(document.metadata.name ?? 'Maze')}</title>`,
+    '<style>',
+    `@page { size: ${round(width)}mm ${round(height)}mm; margin: 0; }`,
+    'body { margin: 0; }',
+    '.page { break-after: page; }',
+    '.page:last-child { break-after: auto; }',
+    '.page svg { display: block; }',
+    '</style></head><body>',
+    ...pages.map(page => `<div class="page">${page}</div>`),
+    '</body></html>',
+  ].join('\n');
+}
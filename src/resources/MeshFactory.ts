@@ -19,11 +19,30 @@ export interface FloorParams {
   rotationX?: number;
 }
 
+export interface PathSegmentParams {
+  x: number;
+  y: number;
+  z: number;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+export type CellTint = 'visited' | 'frontier';
+
 /**
  * MeshFactory - Factory pattern to create meshes
  * Use ResourceManager to reuse geometries
  */
 export class MeshFactory {
+  private pathColor: THREE.Color = new THREE.Color(0xff8c1a);
+  private avatarColor: THREE.Color = new THREE.Color(0xe74c3c);
+  private stairsColor: THREE.Color = new THREE.Color(0x16a085);
+  private tintColors: Record<CellTint, THREE.Color> = {
+    visited: new THREE.Color(0x3498db),
+    frontier: new THREE.Color(0xf1c40f),
+  };
+
   constructor(
     private resourceManager: ResourceManager,
     private wallColor: THREE.Color,
@@ -106,6 +125,86 @@ export class MeshFactory {
     });
   }
 
+  /**
+   * Create a flight of steps filling one cell, rising from `y` by `height`
+   * towards the next row (-z), the only way up to the layer above
+   */
+  createStairs(x: number, y: number, z: number, size: number, height: number): THREE.Group {
+    const steps = 4;
+    const depth = size / steps;
+    const material = this.resourceManager.getMaterial('stairs', 'stairs', this.stairsColor, 1);
+
+    const group = new THREE.Group();
+    for (let step = 0; step < steps; step += 1) {
+      const stepHeight = (height * (step + 1)) / steps;
+      const geometry = this.resourceManager.getBoxGeometry(size, stepHeight, depth);
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.position.set(x, y + stepHeight / 2, z + size / 2 - depth * (step + 0.5));
+      mesh.userData.sharedGeometry = true;
+      mesh.userData.sharedMaterial = true;
+      group.add(mesh);
+
+      if (this.showEdges) {
+        this.addEdgesToGroup(group, geometry, mesh.position.x, mesh.position.y, mesh.position.z);
+      }
+    }
+
+    return group;
+  }
+
+  /**
+   * Create solution path segment (no edges, shared geometry and material)
+   */
+  createPathSegment(params: PathSegmentParams): THREE.Mesh {
+    const { x, y, z, width, height, depth } = params;
+
+    const geometry = this.resourceManager.getBoxGeometry(width, height, depth);
+    const material = this.resourceManager.getMaterial('path', 'path', this.pathColor, 1);
+
+    const segment = new THREE.Mesh(geometry, material);
+    segment.position.set(x, y, z);
+    segment.userData.sharedGeometry = true;
+    segment.userData.sharedMaterial = true;
+
+    return segment;
+  }
+
+  /**
+   * Create sphere standing in for an agent walking the maze
+   */
+  createAvatar(x: number, y: number, z: number, radius: number): THREE.Mesh {
+    const geometry = this.resourceManager.getSphereGeometry(radius);
+    const material = this.resourceManager.getMaterial('avatar', 'avatar', this.avatarColor, 1);
+
+    const avatar = new THREE.Mesh(geometry, material);
+    avatar.position.set(x, y, z);
+    avatar.userData.sharedGeometry = true;
+    avatar.userData.sharedMaterial = true;
+
+    return avatar;
+  }
+
+  /**
+   * Create flat tile tinting a cell (solver exploration overlay)
+   */
+  createTintTile(x: number, y: number, z: number, size: number, tint: CellTint): THREE.Mesh {
+    const geometry = this.resourceManager.getPlaneGeometry(size, size);
+    const tile = new THREE.Mesh(geometry, this.getTintMaterial(tint));
+    tile.rotation.x = -Math.PI / 2;
+    tile.position.set(x, y, z);
+    tile.userData.sharedGeometry = true;
+    tile.userData.sharedMaterial = true;
+
+    return tile;
+  }
+
+  /**
+   * Shared material for a tint, so re-tinting a tile is a material swap
+   */
+  getTintMaterial(tint: CellTint): THREE.MeshBasicMaterial {
+    return this.resourceManager.getMaterial(tint, 'tint', this.tintColors[tint], 0.8);
+  }
+
   /**
    * Add edges to a group
    */
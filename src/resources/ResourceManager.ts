@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 
+export type MaterialType = 'wall' | 'floor' | 'path' | 'tint' | 'avatar' | 'stairs';
+
 /**
  * ResourceManager - Centralized management of materials and geometries
  * Reuse resources to avoid continuous creation
@@ -15,7 +17,7 @@ export class ResourceManager {
    */
   getMaterial(
     key: string,
-    type: 'wall' | 'floor',
+    type: MaterialType,
     color: THREE.Color,
     opacity: number
   ): THREE.MeshBasicMaterial {
@@ -23,6 +25,7 @@ export class ResourceManager {
 
     if (!this.materials.has(materialKey)) {
       const material = new THREE.MeshBasicMaterial({
+        name: key,
         color: color.clone(),
         transparent: opacity < 1,
         opacity,
@@ -67,6 +70,19 @@ export class ResourceManager {
     return this.geometries.get(key) as THREE.PlaneGeometry;
   }
 
+  /**
+   * Get or create sphere geometry
+   */
+  getSphereGeometry(radius: number): THREE.SphereGeometry {
+    const key = `sphere-${radius}`;
+
+    if (!this.geometries.has(key)) {
+      this.geometries.set(key, new THREE.SphereGeometry(radius, 16, 12));
+    }
+
+    return this.geometries.get(key) as THREE.SphereGeometry;
+  }
+
   /**
    * Get or create edge material (shared)
    */
@@ -102,7 +118,7 @@ export class ResourceManager {
   /**
    * Update color for all materials of a type
    */
-  updateMaterialColor(type: 'wall' | 'floor', color: THREE.Color): void {
+  updateMaterialColor(type: MaterialType, color: THREE.Color): void {
     this.materials.forEach((material, key) => {
       if (key.endsWith(`-${type}`) || key.includes(`-${type}-`)) {
         (material as THREE.MeshBasicMaterial).color.copy(color);
@@ -113,7 +129,7 @@ export class ResourceManager {
   /**
    * Update opacity for all materials of a type
    */
-  updateMaterialOpacity(type: 'wall' | 'floor', opacity: number): void {
+  updateMaterialOpacity(type: MaterialType, opacity: number): void {
     this.materials.forEach((material, key) => {
       if (key.endsWith(`-${type}`) || key.includes(`-${type}-`)) {
         const mat = material as THREE.MeshBasicMaterial;
@@ -0,0 +1,175 @@
+import { Toolbar } from '../toolbar';
+import { createButton, createSelectInput, renderStatRows } from './controls';
+import { DeadEndFill, MazeAnalysis, analyzeMaze, fillDeadEnds } from '../../analysis';
+
+type OverlayMode = 'none' | 'dead-ends' | 'dead-end-fill' | 'longest-path';
+
+const OVERLAY_OPTIONS: { value: OverlayMode; label: string }[] = [
+  { value: 'dead-end-fill', label: 'Dead-end filling' },
+  { value: 'dead-ends', label: 'Dead ends' },
+  { value: 'longest-path', label: 'Longest path' },
+  { value: 'none', label: 'None' },
+];
+
+class AnalysisPopup {
+  private toolbar: Toolbar;
+  private popupContainer: HTMLElement;
+  private overlaySelect: HTMLSelectElement;
+  private stats: HTMLDivElement;
+  private analysis: MazeAnalysis | null = null;
+  private fill: DeadEndFill | null = null;
+
+  private analyzeBtn: HTMLButtonElement;
+  private clearBtn: HTMLButtonElement;
+
+  constructor(toolbar: Toolbar) {
+    this.toolbar = toolbar;
+    this.popupContainer = this.toolbar.createPopupContainer('analysisPopup', 'Maze Analysis', {
+      canvas: false,
+    });
+    this.popupContainer.classList.add('maze-popup');
+
+    const ui = this.buildControls();
+    this.popupContainer.appendChild(ui.controls);
+    this.overlaySelect = ui.overlaySelect;
+    this.stats = ui.stats;
+    this.analyzeBtn = ui.analyzeBtn;
+    this.clearBtn = ui.clearBtn;
+
+    this.bindEvents();
+    this.renderStats();
+  }
+
+  private buildControls() {
+    const controls = document.createElement('div');
+    controls.className = 'maze-popup__controls';
+
+    const sectionTitle = document.createElement('div');
+    sectionTitle.className = 'maze-popup__section-title';
+    sectionTitle.textContent = 'Preview overlay';
+    controls.appendChild(sectionTitle);
+
+    const overlaySection = document.createElement('div');
+    overlaySection.className = 'maze-popup__section';
+    const overlay = createSelectInput('Show', OVERLAY_OPTIONS);
+    overlaySection.appendChild(overlay.wrapper);
+
+    const actionSection = document.createElement('div');
+    actionSection.className = 'maze-popup__section';
+    const analyzeBtn = createButton('Analyze', 'maze-popup__btn maze-popup__btn--primary');
+    const clearBtn = createButton('Clear', 'maze-popup__btn');
+    actionSection.appendChild(analyzeBtn);
+    actionSection.appendChild(clearBtn);
+
+    const statsTitle = document.createElement('div');
+    statsTitle.className = 'maze-popup__section-title';
+    statsTitle.textContent = 'Statistics';
+
+    const stats = document.createElement('div');
+    stats.className = 'maze-popup__stats';
+
+    controls.appendChild(overlaySection);
+    controls.appendChild(actionSection);
+    controls.appendChild(statsTitle);
+    controls.appendChild(stats);
+
+    return { controls, overlaySelect: overlay.select, stats, analyzeBtn, clearBtn };
+  }
+
+  private bindEvents() {
+    this.analyzeBtn.addEventListener('click', () => this.handleAnalyze());
+    this.clearBtn.addEventListener('click', () => this.handleClear());
+    this.overlaySelect.addEventListener('change', () => this.applyOverlay());
+  }
+
+  /**
+   * Analyze layer 0 of the current maze, the layer the preview shows
+   */
+  private handleAnalyze() {
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.getMazeData !== 'function') {
+      console.warn('mazeApp.getMazeData not available');
+      return;
+    }
+    const data = mazeApp.getMazeData();
+    const markers = typeof mazeApp.getMazeMarkers === 'function' ? mazeApp.getMazeMarkers() : null;
+    if (!Array.isArray(data) || data.length === 0) {
+      console.warn('No maze data available to analyze');
+      return;
+    }
+
+    try {
+      this.analysis = analyzeMaze(data, markers);
+      this.fill = fillDeadEnds(data, markers);
+      this.renderStats();
+      this.applyOverlay();
+    } catch (error) {
+      console.error('Failed to analyze maze:', error);
+    }
+  }
+
+  private handleClear() {
+    this.analysis = null;
+    this.fill = null;
+    this.renderStats();
+    (window as any).mazeApp?.setPreviewOverlay?.(null);
+  }
+
+  private applyOverlay() {
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.setPreviewOverlay !== 'function') return;
+    if (!this.analysis || !this.fill) return;
+
+    switch (this.overlaySelect.value as OverlayMode) {
+      case 'dead-end-fill':
+        mazeApp.setPreviewOverlay({ filled: this.fill.filled, path: this.fill.remaining });
+        break;
+      case 'dead-ends':
+        mazeApp.setPreviewOverlay({ deadEnds: this.analysis.deadEnds });
+        break;
+      case 'longest-path':
+        mazeApp.setPreviewOverlay({ path: this.analysis.longestPath });
+        break;
+      default:
+        mazeApp.setPreviewOverlay(null);
+    }
+  }
+
+  private renderStats() {
+    const analysis = this.analysis;
+    if (!analysis) {
+      renderStatRows(this.stats, null, 'No analysis yet');
+      return;
+    }
+
+    let kind = 'Perfect';
+    if (analysis.components > 1) {
+      kind = 'Disconnected';
+    } else if (!analysis.perfect) {
+      kind = 'Braided';
+    }
+
+    const rows: [string, string][] = [
+      ['Type', kind],
+      ['Open cells', String(analysis.openCells)],
+      ['Dead ends', String(analysis.deadEnds.length)],
+      ['Junctions', String(analysis.junctions)],
+      ['Branching factor', analysis.branchingFactor.toFixed(2)],
+      ['Loops', String(analysis.loops)],
+      ['Longest path', String(analysis.longestPath.length)],
+      ['Filled cells', String(this.fill?.filled.length ?? 0)],
+    ];
+    renderStatRows(this.stats, rows, 'No analysis yet');
+  }
+}
+
+/**
+ * Show analysis popup - Structural statistics of the current maze
+ */
+export function showAnalysisPopup(toolbar: Toolbar): void {
+  try {
+    new AnalysisPopup(toolbar);
+  } catch (error) {
+    console.error('Failed to initialize analysis popup:', error);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Shared DOM controls for toolbar popups
+ */
+
+export function createNumberInput(label: string, min: number, max: number, value: number) {
+  const wrapper = document.createElement('label');
+  wrapper.className = 'maze-popup__input';
+
+  const span = document.createElement('span');
+  span.textContent = label;
+
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.min = String(min);
+  input.max = String(max);
+  input.value = String(value);
+
+  wrapper.appendChild(span);
+  wrapper.appendChild(input);
+
+  return { wrapper, input };
+}
+
+export function createSelectInput(label: string, options: { value: string; label: string }[]) {
+  const wrapper = document.createElement('label');
+  wrapper.className = 'maze-popup__input maze-popup__input--select';
+
+  const span = document.createElement('span');
+  span.textContent = label;
+
+  const select = document.createElement('select');
+  options.forEach(option => {
+    const element = document.createElement('option');
+    element.value = option.value;
+    element.textContent = option.label;
+    select.appendChild(element);
+  });
+
+  wrapper.appendChild(span);
+  wrapper.appendChild(select);
+
+  return { wrapper, select };
+}
+
+export function createCheckbox(label: string, checked: boolean) {
+  const wrapper = document.createElement('label');
+  wrapper.className = 'maze-popup__input maze-popup__input--checkbox';
+
+  const input = document.createElement('input');
+  input.type = 'checkbox';
+  input.checked = checked;
+
+  const span = document.createElement('span');
+  span.textContent = label;
+
+  wrapper.appendChild(input);
+  wrapper.appendChild(span);
+
+  return { wrapper, input };
+}
+
+export function createButton(text: string, className: string) {
+  const btn = document.createElement('button');
+  btn.type = 'button';
+  btn.textContent = text;
+  btn.className = className;
+  return btn;
+}
+
+/**
+ * Fill a `maze-popup__stats` block with label/value rows, or a placeholder without rows
+ */
+export function renderStatRows(
+  container: HTMLElement,
+  rows: [string, string][] | null,
+  emptyText: string
+) {
+  container.innerHTML = '';
+  if (!rows) {
+    container.textContent = emptyText;
+    return;
+  }
+
+  rows.forEach(([label, value]) => {
+    const row = document.createElement('div');
+    row.className = 'maze-popup__stat';
+    const name = document.createElement('span');
+    name.textContent = label;
+    const amount = document.createElement('span');
+    amount.textContent = value;
+    row.appendChild(name);
+    row.appendChild(amount);
+    container.appendChild(row);
+  });
+}
+
+/**
+ * Save generated content through a temporary object URL
+ */
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download before the browser has read the blob
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,261 @@
+import { Toolbar } from '../toolbar';
+import {
+  createButton,
+  createCheckbox,
+  createNumberInput,
+  createSelectInput,
+  downloadFile,
+} from './controls';
+import { solveMaze } from '../../solve';
+import { documentToGrid, getDocumentMarkers, MazeDocument } from '../../maze/MazeDocument';
+import {
+  PaperSize,
+  SvgExportOptions,
+  SvgWallStyle,
+  mazeToPrintHTML,
+  mazeToSVG,
+} from '../../preview/svgExport';
+
+const WALL_STYLE_OPTIONS: { value: SvgWallStyle; label: string }[] = [
+  { value: 'cells', label: 'Filled cells' },
+  { value: 'lines', label: 'Lines' },
+];
+
+const PAPER_OPTIONS: { value: PaperSize; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'Letter' },
+];
+
+class ExportPopup {
+  private toolbar: Toolbar;
+  private popupContainer: HTMLElement;
+  private scaleInput: HTMLInputElement;
+  private status: HTMLDivElement;
+
+  private glbBtn: HTMLButtonElement;
+  private stlBtn: HTMLButtonElement;
+  private wallStyleSelect: HTMLSelectElement;
+  private paperSelect: HTMLSelectElement;
+  private solutionInput: HTMLInputElement;
+  private footerInput: HTMLInputElement;
+  private svgBtn: HTMLButtonElement;
+  private printBtn: HTMLButtonElement;
+
+  constructor(toolbar: Toolbar) {
+    this.toolbar = toolbar;
+    this.popupContainer = this.toolbar.createPopupContainer('exportPopup', 'Export Maze', {
+      canvas: false,
+    });
+    this.popupContainer.classList.add('maze-popup');
+
+    const ui = this.buildControls();
+    this.popupContainer.appendChild(ui.controls);
+    this.scaleInput = ui.scaleInput;
+    this.status = ui.status;
+    this.glbBtn = ui.glbBtn;
+    this.stlBtn = ui.stlBtn;
+    this.wallStyleSelect = ui.wallStyleSelect;
+    this.paperSelect = ui.paperSelect;
+    this.solutionInput = ui.solutionInput;
+    this.footerInput = ui.footerInput;
+    this.svgBtn = ui.svgBtn;
+    this.printBtn = ui.printBtn;
+
+    this.bindEvents();
+  }
+
+  private buildControls() {
+    const controls = document.createElement('div');
+    controls.className = 'maze-popup__controls';
+
+    const modelTitle = document.createElement('div');
+    modelTitle.className = 'maze-popup__section-title';
+    modelTitle.textContent = '3D model';
+    controls.appendChild(modelTitle);
+
+    const modelSection = document.createElement('div');
+    modelSection.className = 'maze-popup__section';
+    const scale = createNumberInput('mm per cell', 1, 100, 10);
+    const glbBtn = createButton('GLB', 'maze-popup__btn');
+    const stlBtn = createButton('STL', 'maze-popup__btn maze-popup__btn--primary');
+    modelSection.appendChild(scale.wrapper);
+    modelSection.appendChild(glbBtn);
+    modelSection.appendChild(stlBtn);
+
+    const sheetTitle = document.createElement('div');
+    sheetTitle.className = 'maze-popup__section-title';
+    sheetTitle.textContent = '2D sheet';
+
+    const sheetSection = document.createElement('div');
+    sheetSection.className = 'maze-popup__section';
+    const wallStyle = createSelectInput('Walls', WALL_STYLE_OPTIONS);
+    const paper = createSelectInput('Paper', PAPER_OPTIONS);
+    const solution = createCheckbox('Solution', false);
+    const footer = createCheckbox('Title & seed', true);
+    sheetSection.appendChild(wallStyle.wrapper);
+    sheetSection.appendChild(paper.wrapper);
+    sheetSection.appendChild(solution.wrapper);
+    sheetSection.appendChild(footer.wrapper);
+
+    const sheetActions = document.createElement('div');
+    sheetActions.className = 'maze-popup__section';
+    const svgBtn = createButton('SVG', 'maze-popup__btn');
+    const printBtn = createButton('Print / PDF', 'maze-popup__btn maze-popup__btn--primary');
+    sheetActions.appendChild(svgBtn);
+    sheetActions.appendChild(printBtn);
+
+    const status = document.createElement('div');
+    status.className = 'maze-popup__status';
+
+    controls.appendChild(modelSection);
+    controls.appendChild(sheetTitle);
+    controls.appendChild(sheetSection);
+    controls.appendChild(sheetActions);
+    controls.appendChild(status);
+
+    return {
+      controls,
+      scaleInput: scale.input,
+      status,
+      glbBtn,
+      stlBtn,
+      wallStyleSelect: wallStyle.select,
+      paperSelect: paper.select,
+      solutionInput: solution.input,
+      footerInput: footer.input,
+      svgBtn,
+      printBtn,
+    };
+  }
+
+  private bindEvents() {
+    this.glbBtn.addEventListener('click', () => this.handleGLB());
+    this.stlBtn.addEventListener('click', () => this.handleSTL());
+    this.svgBtn.addEventListener('click', () => this.handleSVG());
+    this.printBtn.addEventListener('click', () => this.handlePrint());
+  }
+
+  private fileBase(): string {
+    const seed = (window as any).mazeApp?.getMazeSeed?.();
+    return seed === null || seed === undefined ? 'maze' : `maze-${seed}`;
+  }
+
+  /**
+   * Scene walls and floors with their colours, for viewers and game engines
+   */
+  private async handleGLB() {
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.exportGLB !== 'function') {
+      console.warn('mazeApp.exportGLB not available');
+      return;
+    }
+    this.status.textContent = 'Exporting GLB...';
+    try {
+      const buffer: ArrayBuffer = await mazeApp.exportGLB();
+      downloadFile(`${this.fileBase()}.glb`, buffer, 'model/gltf-binary');
+      this.status.textContent = `GLB saved (${Math.round(buffer.byteLength / 1024)} KB)`;
+    } catch (error) {
+      console.error('Failed to export GLB:', error);
+      this.status.textContent = 'GLB export failed';
+    }
+  }
+
+  /**
+   * One closed mesh of floor and walls, scaled to millimetres for slicers
+   */
+  private handleSTL() {
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.exportSTL !== 'function') {
+      console.warn('mazeApp.exportSTL not available');
+      return;
+    }
+    const scale = Math.max(1, Math.min(100, this.scaleInput.valueAsNumber || 10));
+    this.scaleInput.valueAsNumber = scale;
+    try {
+      const buffer: ArrayBuffer = mazeApp.exportSTL(scale);
+      downloadFile(`${this.fileBase()}.stl`, buffer, 'model/stl');
+      this.status.textContent = `STL saved (${Math.round(buffer.byteLength / 1024)} KB)`;
+    } catch (error) {
+      console.error('Failed to export STL:', error);
+      this.status.textContent = 'STL export failed';
+    }
+  }
+
+  /**
+   * Current maze and sheet options; the solution is the shortest route across all layers
+   */
+  private getSheet(): {
+    mazeDocument: MazeDocument;
+    options: SvgExportOptions;
+    warning: string | null;
+  } | null {
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.getMazeDocument !== 'function') {
+      console.warn('mazeApp.getMazeDocument not available');
+      return null;
+    }
+    const mazeDocument: MazeDocument = mazeApp.getMazeDocument();
+    const options: SvgExportOptions = {
+      wallStyle: this.wallStyleSelect.value as SvgWallStyle,
+      paper: this.paperSelect.value as PaperSize,
+      footer: this.footerInput.checked,
+    };
+
+    let warning: string | null = null;
+    if (this.solutionInput.checked) {
+      const markers = getDocumentMarkers(mazeDocument);
+      const result = solveMaze('bfs', documentToGrid(mazeDocument), markers);
+      if (!result.found) {
+        warning = 'No solution to draw, exported without it';
+      }
+      options.solution = result.path;
+    }
+    return { mazeDocument, options, warning };
+  }
+
+  /**
+   * One SVG file holding every layer, so the browser only sees a single download
+   */
+  private handleSVG() {
+    const sheet = this.getSheet();
+    if (!sheet) return;
+    downloadFile(
+      `${this.fileBase()}.svg`,
+      mazeToSVG(sheet.mazeDocument, sheet.options),
+      'image/svg+xml'
+    );
+    const layers = sheet.mazeDocument.layers.length;
+    this.status.textContent =
+      sheet.warning ??
+      (layers > 1 ? `SVG saved, ${layers} layers stacked top to bottom` : 'SVG saved');
+  }
+
+  /**
+   * Open all layers as printable pages; the browser print dialog can save them as a PDF
+   */
+  private handlePrint() {
+    const sheet = this.getSheet();
+    if (!sheet) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      this.status.textContent = 'Allow pop-ups to print the maze';
+      return;
+    }
+    printWindow.document.write(mazeToPrintHTML(sheet.mazeDocument, sheet.options));
+    printWindow.document.close();
+    this.status.textContent = sheet.warning ?? 'Sent to print';
+    printWindow.focus();
+    printWindow.print();
+  }
+}
+
+/**
+ * Show export popup - 3D model and printable sheet downloads of the current maze
+ */
+export function showExportPopup(toolbar: Toolbar): void {
+  try {
+    new ExportPopup(toolbar);
+  } catch (error) {
+    console.error('Failed to initialize export popup:', error);
+  }
+}
@@ -1,12 +1,349 @@
 import { Toolbar } from '../toolbar';
+import { createButton, createCheckbox, createNumberInput, createSelectInput } from './controls';
+import {
+  GenerationStep,
+  GeneratorParamSchema,
+  GeneratorParamValue,
+  MAX_LAYERS,
+  MAX_MAZE_SIZE,
+  MIN_MAZE_SIZE,
+  generateMaze,
+  getGenerator,
+  listGenerators,
+} from '../../generator';
+import { SeededRandom } from '../../generator/SeededRandom';
+import { applyStep, rewindSteps } from '../../generator/steps';
+import { PlaybackController, PlaybackState } from '../../app/PlaybackController';
+import { createMazeDocument } from '../../maze/MazeDocument';
 
-export function showGeneratePopup(toolbar: Toolbar) {
-  const popupContainer = toolbar.createPopupContainer('generatePopup', 'Generate Maze');
-  const popup = popupContainer.querySelector('canvas') as HTMLCanvasElement;
-  const ctx = popup.getContext('2d');
+interface ParamInput {
+  schema: GeneratorParamSchema;
+  element: HTMLInputElement | HTMLSelectElement;
+}
+
+class GeneratePopup {
+  private toolbar: Toolbar;
+  private popupContainer: HTMLElement;
+  private algorithmSelect: HTMLSelectElement;
+  private rowsInput: HTMLInputElement;
+  private colsInput: HTMLInputElement;
+  private layersInput: HTMLInputElement;
+  private seedInput: HTMLInputElement;
+  private paramsSection: HTMLDivElement;
+  private paramInputs: ParamInput[] = [];
+  private status: HTMLDivElement;
+  private animateInput: HTMLInputElement;
+  private speedInput: HTMLInputElement;
+  private playbackStatus: HTMLDivElement;
+  private playback: PlaybackController | null = null;
+
+  private randomizeBtn: HTMLButtonElement;
+  private generateBtn: HTMLButtonElement;
+  private playBtn: HTMLButtonElement;
+  private stepBtn: HTMLButtonElement;
+  private finishBtn: HTMLButtonElement;
+
+  constructor(toolbar: Toolbar) {
+    this.toolbar = toolbar;
+    this.popupContainer = this.toolbar.createPopupContainer('generatePopup', 'Generate Maze', {
+      canvas: false,
+    });
+    this.popupContainer.classList.add('maze-popup');
+
+    const ui = this.buildControls();
+    this.popupContainer.appendChild(ui.controls);
+    this.algorithmSelect = ui.algorithmSelect;
+    this.rowsInput = ui.rowsInput;
+    this.colsInput = ui.colsInput;
+    this.layersInput = ui.layersInput;
+    this.seedInput = ui.seedInput;
+    this.paramsSection = ui.paramsSection;
+    this.status = ui.status;
+    this.randomizeBtn = ui.randomizeBtn;
+    this.generateBtn = ui.generateBtn;
+    this.animateInput = ui.animateInput;
+    this.speedInput = ui.speedInput;
+    this.playbackStatus = ui.playbackStatus;
+    this.playBtn = ui.playBtn;
+    this.stepBtn = ui.stepBtn;
+    this.finishBtn = ui.finishBtn;
+
+    this.bindEvents();
+    this.rebuildParams();
+    this.updatePlaybackControls(null);
+    this.toolbar.onPopupClose(this.popupContainer.id, () => this.stopPlayback());
+  }
+
+  private buildControls() {
+    const controls = document.createElement('div');
+    controls.className = 'maze-popup__controls';
+
+    const sectionTitle = document.createElement('div');
+    sectionTitle.className = 'maze-popup__section-title';
+    sectionTitle.textContent = 'Algorithm';
+    controls.appendChild(sectionTitle);
+
+    const algorithmSection = document.createElement('div');
+    algorithmSection.className = 'maze-popup__section';
+    const algorithm = createSelectInput(
+      'Type',
+      listGenerators().map(generator => ({ value: generator.id, label: generator.name }))
+    );
+    algorithmSection.appendChild(algorithm.wrapper);
+
+    const paramsSection = document.createElement('div');
+    paramsSection.className = 'maze-popup__section';
+
+    const sizeTitle = document.createElement('div');
+    sizeTitle.className = 'maze-popup__section-title';
+    sizeTitle.textContent = 'Size';
+
+    const sizeSection = document.createElement('div');
+    sizeSection.className = 'maze-popup__section';
+    const rowsInput = createNumberInput('Rows', MIN_MAZE_SIZE, MAX_MAZE_SIZE, 21);
+    const colsInput = createNumberInput('Cols', MIN_MAZE_SIZE, MAX_MAZE_SIZE, 21);
+    const layersInput = createNumberInput('Layers', 1, MAX_LAYERS, 1);
+    sizeSection.appendChild(rowsInput.wrapper);
+    sizeSection.appendChild(colsInput.wrapper);
+    sizeSection.appendChild(layersInput.wrapper);
+
+    const seedSection = document.createElement('div');
+    seedSection.className = 'maze-popup__section';
+    const seedInput = createNumberInput('Seed', 0, 0xffffffff, SeededRandom.randomSeed());
+    seedInput.wrapper.classList.add('maze-popup__input--wide');
+    const randomizeBtn = createButton('Randomize', 'maze-popup__btn');
+    seedSection.appendChild(seedInput.wrapper);
+    seedSection.appendChild(randomizeBtn);
+
+    const actionSection = document.createElement('div');
+    actionSection.className = 'maze-popup__section';
+    const animateInput = createCheckbox('Animate', false);
+    const generateBtn = createButton('Generate', 'maze-popup__btn maze-popup__btn--primary');
+    actionSection.appendChild(animateInput.wrapper);
+    actionSection.appendChild(generateBtn);
+
+    const status = document.createElement('div');
+    status.className = 'maze-popup__status';
+
+    const playbackTitle = document.createElement('div');
+    playbackTitle.className = 'maze-popup__section-title';
+    playbackTitle.textContent = 'Playback';
+
+    const playbackSection = document.createElement('div');
+    playbackSection.className = 'maze-popup__section';
+    const playBtn = createButton('Play', 'maze-popup__btn');
+    const stepBtn = createButton('Step', 'maze-popup__btn');
+    const finishBtn = createButton('Finish', 'maze-popup__btn');
+    const speedInput = createNumberInput('Steps/s', 1, 2000, 60);
+    playbackSection.appendChild(playBtn);
+    playbackSection.appendChild(stepBtn);
+    playbackSection.appendChild(finishBtn);
+    playbackSection.appendChild(speedInput.wrapper);
+
+    const playbackStatus = document.createElement('div');
+    playbackStatus.className = 'maze-popup__status';
+
+    controls.appendChild(algorithmSection);
+    controls.appendChild(paramsSection);
+    controls.appendChild(sizeTitle);
+    controls.appendChild(sizeSection);
+    controls.appendChild(seedSection);
+    controls.appendChild(actionSection);
+    controls.appendChild(status);
+    controls.appendChild(playbackTitle);
+    controls.appendChild(playbackSection);
+    controls.appendChild(playbackStatus);
+
+    return {
+      controls,
+      algorithmSelect: algorithm.select,
+      paramsSection,
+      rowsInput: rowsInput.input,
+      colsInput: colsInput.input,
+      layersInput: layersInput.input,
+      seedInput: seedInput.input,
+      randomizeBtn,
+      generateBtn,
+      status,
+      animateInput: animateInput.input,
+      speedInput: speedInput.input,
+      playbackStatus,
+      playBtn,
+      stepBtn,
+      finishBtn,
+    };
+  }
+
+  private bindEvents() {
+    this.algorithmSelect.addEventListener('change', () => this.rebuildParams());
+    this.randomizeBtn.addEventListener('click', () => this.handleRandomize());
+    this.generateBtn.addEventListener('click', () => this.handleGenerate());
+    this.playBtn.addEventListener('click', () => this.playback?.toggle());
+    this.stepBtn.addEventListener('click', () => this.playback?.step());
+    this.finishBtn.addEventListener('click', () => this.playback?.finish());
+    this.speedInput.addEventListener('change', () => {
+      this.playback?.setSpeed(this.readSpeed());
+    });
+  }
+
+  /**
+   * Rebuild algorithm-specific inputs from the generator parameter schema
+   */
+  private rebuildParams() {
+    this.paramsSection.innerHTML = '';
+    this.paramInputs = [];
+
+    const generator = getGenerator(this.algorithmSelect.value);
+    if (!generator) return;
+
+    generator.params.forEach(schema => {
+      if (schema.type === 'select') {
+        const field = createSelectInput(schema.label, schema.choices ?? []);
+        if (schema.defaultValue !== null) {
+          field.select.value = String(schema.defaultValue);
+        }
+        this.paramsSection.appendChild(field.wrapper);
+        this.paramInputs.push({ schema, element: field.select });
+        return;
+      }
+
+      const field = createNumberInput(schema.label, schema.min ?? 0, schema.max ?? 1, 0);
+      field.input.value = schema.defaultValue === null ? '' : String(schema.defaultValue);
+      if (schema.step !== undefined) field.input.step = String(schema.step);
+      if (schema.defaultValue === null) field.input.placeholder = 'auto';
+      this.paramsSection.appendChild(field.wrapper);
+      this.paramInputs.push({ schema, element: field.input });
+    });
+  }
+
+  private readParams(): Record<string, GeneratorParamValue | null> {
+    const params: Record<string, GeneratorParamValue | null> = {};
+    this.paramInputs.forEach(({ schema, element }) => {
+      if (element.value === '') {
+        params[schema.key] = null;
+      } else {
+        params[schema.key] = schema.type === 'number' ? Number(element.value) : element.value;
+      }
+    });
+    return params;
+  }
+
+  private clamp(value: number, min: number, max: number) {
+    return Math.max(min, Math.min(max, value));
+  }
+
+  private handleRandomize() {
+    this.seedInput.value = String(SeededRandom.randomSeed());
+  }
+
+  private handleGenerate() {
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.loadDocument !== 'function') {
+      console.warn('mazeApp.loadDocument not available');
+      return;
+    }
+
+    const rows = this.clamp(this.rowsInput.valueAsNumber || 0, MIN_MAZE_SIZE, MAX_MAZE_SIZE);
+    const cols = this.clamp(this.colsInput.valueAsNumber || 0, MIN_MAZE_SIZE, MAX_MAZE_SIZE);
+    const layers = this.clamp(this.layersInput.valueAsNumber || 1, 1, MAX_LAYERS);
+    this.rowsInput.valueAsNumber = rows;
+    this.colsInput.valueAsNumber = cols;
+    this.layersInput.valueAsNumber = layers;
+
+    const seedValue = this.seedInput.valueAsNumber;
+    const seed = Number.isFinite(seedValue) ? seedValue : undefined;
+    const animate = this.animateInput.checked;
+    const steps: GenerationStep[] = [];
+
+    this.stopPlayback();
+
+    try {
+      const result = generateMaze(this.algorithmSelect.value, {
+        rows,
+        cols,
+        layers,
+        seed,
+        params: this.readParams(),
+        onStep: animate ? step => steps.push(step) : undefined,
+      });
+      this.seedInput.value = String(result.seed);
+
+      const metadata = { seed: result.seed, generator: this.algorithmSelect.value };
+      if (animate) {
+        const frame = rewindSteps(result.data, steps);
+        mazeApp.loadDocument(createMazeDocument(frame, result.markers, metadata));
+        this.startPlayback(frame, steps);
+      } else {
+        mazeApp.loadDocument(createMazeDocument(result.data, result.markers, metadata));
+      }
+
+      const layer = result.data[0];
+      this.status.textContent = `Generated ${layer.length}x${layer[0].length} x${result.data.length} (seed ${result.seed})`;
+    } catch (error) {
+      console.error('Failed to generate maze:', error);
+      this.status.textContent = 'Generation failed, see console for details';
+    }
+  }
+
+  /**
+   * Replay recorded steps on a working frame, pushing each frame to the app
+   */
+  private startPlayback(frame: number[][][], steps: GenerationStep[]) {
+    const mazeApp = (window as any).mazeApp;
+    const version = mazeApp?.getDocumentVersion();
+    let applied = 0;
+
+    const playback = new PlaybackController({
+      totalSteps: steps.length,
+      stepsPerSecond: this.readSpeed(),
+      onUpdate: index => {
+        for (; applied < index; applied += 1) {
+          applyStep(frame, steps[applied]);
+        }
+        // Frames belong to the generated maze, never draw them over another one
+        if (!mazeApp?.showMazeFrame(frame, version)) {
+          this.stopPlayback();
+          this.status.textContent = 'Playback stopped, another maze was loaded';
+        }
+      },
+      onStateChange: state => {
+        if (this.playback === playback) this.updatePlaybackControls(state);
+      },
+    });
+    this.playback = playback;
+    this.updatePlaybackControls(playback.getState());
+    playback.play();
+  }
+
+  private stopPlayback() {
+    if (this.playback) {
+      this.playback.destroy();
+      this.playback = null;
+    }
+    this.updatePlaybackControls(null);
+  }
+
+  private readSpeed(): number {
+    return this.clamp(this.speedInput.valueAsNumber || 60, 1, 2000);
+  }
+
+  private updatePlaybackControls(state: PlaybackState | null) {
+    const done = !state || state.index >= state.total;
+    this.playBtn.disabled = done;
+    this.stepBtn.disabled = done;
+    this.finishBtn.disabled = done;
+    this.playBtn.textContent = state?.playing ? 'Pause' : 'Play';
+    this.playbackStatus.textContent = state ? `Step ${state.index} / ${state.total}` : '';
+  }
+}
 
-  if (ctx) {
-    ctx.fillStyle = '#a0a0a0';
-    ctx.fillRect(0, 0, popup.width, popup.height);
+/**
+ * Show generate popup - Maze generation form
+ */
+export function showGeneratePopup(toolbar: Toolbar): void {
+  try {
+    new GeneratePopup(toolbar);
+  } catch (error) {
+    console.error('Failed to initialize generate popup:', error);
   }
 }
@@ -1,4 +1,23 @@
 import { Toolbar } from '../toolbar';
+import { createButton, createCheckbox, createNumberInput, downloadFile } from './controls';
+import { MazeValidationError, validateMaze } from '../../maze/validateMaze';
+import {
+  MazeFileReadResult,
+  mazeFileName,
+  readMazeFile,
+  serializeMazeFile,
+} from '../../maze/mazeFile';
+import { parseMazeText, serializeMazeText } from '../../maze/mazeText';
+import { detectGridSize, maskToDisplayRows, thresholdImage } from '../../maze/imageImport';
+import {
+  CellType,
+  MazeDocument,
+  createMazeDocument,
+  documentFromDisplayRows,
+  documentToDisplayRows,
+  documentToGrid,
+  getDocumentMarkers,
+} from '../../maze/MazeDocument';
 
 type ToolMode = 'pen' | 'eraser' | 'start' | 'end';
 
@@ -13,6 +32,7 @@ interface MazePopupState {
   grid: number[][];
   start: CellPos | null;
   end: CellPos | null;
+  errorCells: CellPos[];
   tool: ToolMode;
   cellSize: number;
   scale: number;
@@ -35,11 +55,24 @@ class MazePopup {
   private rowsInput: HTMLInputElement;
   private colsInput: HTMLInputElement;
   private toolButtons: Record<ToolMode, HTMLButtonElement>;
+  private errorList: HTMLUListElement;
 
   private createBtn: HTMLButtonElement;
   private clearBtn: HTMLButtonElement;
   private applyBtn: HTMLButtonElement;
   private loadBtn: HTMLButtonElement;
+  private importBtn: HTMLButtonElement;
+  private exportBtn: HTMLButtonElement;
+  private fileInput: HTMLInputElement;
+  private textArea: HTMLTextAreaElement;
+  private textLoadBtn: HTMLButtonElement;
+  private textShowBtn: HTMLButtonElement;
+  private imageBtn: HTMLButtonElement;
+  private imageInput: HTMLInputElement;
+  private thresholdInput: HTMLInputElement;
+  private autoSizeInput: HTMLInputElement;
+  private resampleBtn: HTMLButtonElement;
+  private image: ImageData | null = null;
 
   private onMouseDown: (e: MouseEvent) => void;
   private onMouseMove: (e: MouseEvent) => void;
@@ -81,6 +114,18 @@ class MazePopup {
     this.clearBtn = ui.clearBtn;
     this.applyBtn = ui.applyBtn;
     this.loadBtn = ui.loadBtn;
+    this.importBtn = ui.importBtn;
+    this.exportBtn = ui.exportBtn;
+    this.fileInput = ui.fileInput;
+    this.textArea = ui.textArea;
+    this.textLoadBtn = ui.textLoadBtn;
+    this.textShowBtn = ui.textShowBtn;
+    this.imageBtn = ui.imageBtn;
+    this.imageInput = ui.imageInput;
+    this.thresholdInput = ui.thresholdInput;
+    this.autoSizeInput = ui.autoSizeInput;
+    this.resampleBtn = ui.resampleBtn;
+    this.errorList = ui.errorList;
 
     this.state = {
       rows: this.rowsInput.valueAsNumber,
@@ -88,6 +133,7 @@ class MazePopup {
       grid: [],
       start: null,
       end: null,
+      errorCells: [],
       tool: 'pen',
       cellSize: 22,
       scale: 1,
@@ -154,14 +200,60 @@ class MazePopup {
     const clearBtn = createButton('Clear', 'maze-popup__btn');
     actionSection.appendChild(clearBtn);
 
+    const fileSection = document.createElement('div');
+    fileSection.className = 'maze-popup__section';
+    const importBtn = createButton('Import JSON', 'maze-popup__btn');
+    const exportBtn = createButton('Export JSON', 'maze-popup__btn');
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.json,application/json';
+    fileInput.hidden = true;
+    fileSection.appendChild(importBtn);
+    fileSection.appendChild(exportBtn);
+    fileSection.appendChild(fileInput);
+
+    const textSection = document.createElement('div');
+    textSection.className = 'maze-popup__section';
+    const textArea = document.createElement('textarea');
+    textArea.className = 'maze-popup__textarea';
+    textArea.spellcheck = false;
+    textArea.placeholder = '# wall  . path  S start  E end\nblank line between layers';
+    const textLoadBtn = createButton('Load Text', 'maze-popup__btn');
+    const textShowBtn = createButton('Editor to Text', 'maze-popup__btn');
+    textSection.appendChild(textArea);
+    textSection.appendChild(textLoadBtn);
+    textSection.appendChild(textShowBtn);
+
+    const imageSection = document.createElement('div');
+    imageSection.className = 'maze-popup__section';
+    const imageBtn = createButton('Open Image', 'maze-popup__btn');
+    const imageInput = document.createElement('input');
+    imageInput.type = 'file';
+    imageInput.accept = 'image/*';
+    imageInput.hidden = true;
+    const thresholdInput = createNumberInput('Threshold', 0, 255, 128);
+    const autoSizeInput = createCheckbox('Auto size', true);
+    const resampleBtn = createButton('Resample', 'maze-popup__btn');
+    imageSection.appendChild(imageBtn);
+    imageSection.appendChild(imageInput);
+    imageSection.appendChild(thresholdInput.wrapper);
+    imageSection.appendChild(autoSizeInput.wrapper);
+    imageSection.appendChild(resampleBtn);
+
     const applySection = document.createElement('div');
     applySection.className = 'maze-popup__section maze-popup__section--apply';
     const applyBtn = createButton('Apply', 'maze-popup__btn maze-popup__btn--primary');
+    const errorList = document.createElement('ul');
+    errorList.className = 'maze-popup__errors';
     applySection.appendChild(applyBtn);
+    applySection.appendChild(errorList);
 
     controls.appendChild(sizeSection);
     controls.appendChild(toolSection);
     controls.appendChild(actionSection);
+    controls.appendChild(fileSection);
+    controls.appendChild(textSection);
+    controls.appendChild(imageSection);
     return {
       controls,
       applySection,
@@ -171,6 +263,18 @@ class MazePopup {
       loadBtn,
       clearBtn,
       applyBtn,
+      importBtn,
+      exportBtn,
+      fileInput,
+      textArea,
+      textLoadBtn,
+      textShowBtn,
+      imageBtn,
+      imageInput,
+      thresholdInput: thresholdInput.input,
+      autoSizeInput: autoSizeInput.input,
+      resampleBtn,
+      errorList,
       toolButtons: {
         pen: penBtn,
         eraser: eraserBtn,
@@ -185,6 +289,14 @@ class MazePopup {
     this.loadBtn.addEventListener('click', () => this.handleLoadCurrent());
     this.clearBtn.addEventListener('click', () => this.handleClear());
     this.applyBtn.addEventListener('click', () => this.handleApply());
+    this.importBtn.addEventListener('click', () => this.fileInput.click());
+    this.exportBtn.addEventListener('click', () => this.handleExport());
+    this.fileInput.addEventListener('change', () => this.handleImport());
+    this.textLoadBtn.addEventListener('click', () => this.handleTextLoad());
+    this.textShowBtn.addEventListener('click', () => this.handleTextShow());
+    this.imageBtn.addEventListener('click', () => this.imageInput.click());
+    this.imageInput.addEventListener('change', () => this.handleImageOpen());
+    this.resampleBtn.addEventListener('click', () => this.resampleImage());
 
     this.toolButtons.pen.addEventListener('click', () => this.setTool('pen'));
     this.toolButtons.eraser.addEventListener('click', () => this.setTool('eraser'));
@@ -285,6 +397,17 @@ class MazePopup {
       );
     }
 
+    this.ctx.strokeStyle = 'rgba(230, 40, 40, 0.95)';
+    this.ctx.lineWidth = 3 / this.state.scale;
+    this.state.errorCells.forEach(cell => {
+      this.ctx.strokeRect(
+        cell.col * this.state.cellSize,
+        cell.row * this.state.cellSize,
+        this.state.cellSize,
+        this.state.cellSize
+      );
+    });
+
     this.ctx.strokeStyle = 'rgba(0,0,0,0.15)';
     this.ctx.lineWidth = 1 / this.state.scale;
     for (let c = 0; c <= this.state.cols; c += 1) {
@@ -346,6 +469,7 @@ class MazePopup {
     this.state.grid = this.initGrid(rows, cols);
     this.state.start = null;
     this.state.end = null;
+    this.showErrors([]);
     this.resetView();
     this.draw();
   }
@@ -362,82 +486,67 @@ class MazePopup {
     this.state.grid = this.initGrid(this.state.rows, this.state.cols);
     this.state.start = null;
     this.state.end = null;
+    this.showErrors([]);
     this.draw();
   }
 
   private handleLoadCurrent() {
     const mazeApp = (window as any).mazeApp;
-    if (!mazeApp || typeof mazeApp.getMazeData !== 'function') {
-      console.warn('mazeApp.getMazeData not available');
+    if (!mazeApp || typeof mazeApp.getMazeDocument !== 'function') {
+      console.warn('mazeApp.getMazeDocument not available');
       return;
     }
-    const data = mazeApp.getMazeData();
-    const markers =
-      mazeApp && typeof mazeApp.getMazeMarkers === 'function' ? mazeApp.getMazeMarkers() : null;
-    if (!Array.isArray(data) || data.length === 0 || !Array.isArray(data[0])) {
+    const mazeDocument: MazeDocument | null = mazeApp.getMazeDocument();
+    if (!mazeDocument || mazeDocument.layers.length === 0) {
       console.warn('No maze data available to load');
       return;
     }
-    if (data.length !== 1) {
+    if (mazeDocument.layers.length !== 1) {
       console.warn('Current maze is not single-layer. Load is blocked.');
       window.alert('Only single-layer mazes can be loaded into the editor.');
       return;
     }
-    const layer = data[0];
-    if (!layer || layer.length === 0 || !Array.isArray(layer[0])) {
+    this.loadIntoEditor(mazeDocument);
+  }
+
+  /**
+   * Copy a single-layer document into the editor grid, clamped to the size limits
+   */
+  private loadIntoEditor(mazeDocument: MazeDocument) {
+    if (mazeDocument.rows === 0 || mazeDocument.cols === 0) {
       console.warn('Maze layer is empty');
       return;
     }
 
-    const rows = layer.length;
-    const cols = layer[0].length;
+    const rows = mazeDocument.rows;
+    const cols = mazeDocument.cols;
     const nextRows = this.clamp(rows, 5, 80);
     const nextCols = this.clamp(cols, 5, 80);
     if (rows !== nextRows || cols !== nextCols) {
       console.warn('Maze size exceeds popup limits, data will be clamped');
     }
 
-    const reversed = layer.slice().reverse();
+    const display = documentToDisplayRows(mazeDocument);
     const grid: number[][] = [];
     for (let r = 0; r < nextRows; r += 1) {
       const row: number[] = [];
-      const srcRow = reversed[r] ?? [];
+      const srcRow = display.grid[r] ?? [];
       for (let c = 0; c < nextCols; c += 1) {
-        const cell = srcRow[c] ?? 1;
-        row.push(cell === 0 ? 0 : 1);
+        const cell = srcRow[c] ?? CellType.Wall;
+        row.push(cell === CellType.Wall ? CellType.Wall : CellType.Path);
       }
       grid.push(row);
     }
 
+    const inside = (cell: CellPos | null) =>
+      cell && cell.row < nextRows && cell.col < nextCols ? cell : null;
+
     this.state.rows = nextRows;
     this.state.cols = nextCols;
     this.state.grid = grid;
-    this.state.start = null;
-    this.state.end = null;
-    if (markers) {
-      if (markers.start) {
-        const popupStartRow = nextRows - 1 - markers.start.row;
-        if (
-          popupStartRow >= 0 &&
-          popupStartRow < nextRows &&
-          markers.start.col >= 0 &&
-          markers.start.col < nextCols
-        ) {
-          this.state.start = { row: popupStartRow, col: markers.start.col };
-        }
-      }
-      if (markers.end) {
-        const popupEndRow = nextRows - 1 - markers.end.row;
-        if (
-          popupEndRow >= 0 &&
-          popupEndRow < nextRows &&
-          markers.end.col >= 0 &&
-          markers.end.col < nextCols
-        ) {
-          this.state.end = { row: popupEndRow, col: markers.end.col };
-        }
-      }
-    }
+    this.state.start = inside(display.start);
+    this.state.end = inside(display.end);
+    this.showErrors([]);
     this.rowsInput.valueAsNumber = nextRows;
     this.colsInput.valueAsNumber = nextCols;
     this.resetView();
@@ -445,22 +554,194 @@ class MazePopup {
   }
 
   private handleApply() {
-    const mazeData = [this.state.grid.map(row => row.slice()).reverse()];
     const mazeApp = (window as any).mazeApp;
-    if (!mazeApp || typeof mazeApp.updateMaze !== 'function') {
-      console.warn('mazeApp.updateMaze not available');
+    if (!mazeApp || typeof mazeApp.loadDocument !== 'function') {
+      console.warn('mazeApp.loadDocument not available');
+      return;
+    }
+    const mazeDocument = documentFromDisplayRows(
+      this.state.grid,
+      this.state.start,
+      this.state.end,
+      { name: 'Custom maze' }
+    );
+
+    const validation = validateMaze(documentToGrid(mazeDocument), getDocumentMarkers(mazeDocument));
+    this.showErrors(validation.errors);
+    this.draw();
+    if (!validation.valid) return;
+
+    mazeApp.loadDocument(mazeDocument);
+  }
+
+  /**
+   * Save the current maze, all layers included, with the scene settings
+   */
+  private handleExport() {
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.getMazeDocument !== 'function') {
+      console.warn('mazeApp.getMazeDocument not available');
+      return;
+    }
+    const mazeDocument: MazeDocument = mazeApp.getMazeDocument();
+    const settings =
+      typeof mazeApp.getSceneSettings === 'function' ? mazeApp.getSceneSettings() : {};
+    downloadFile(
+      mazeFileName(mazeDocument),
+      serializeMazeFile(mazeDocument, settings),
+      'application/json'
+    );
+  }
+
+  /**
+   * Load a maze file into the scene; single-layer mazes also open in the editor
+   */
+  private async handleImport() {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = '';
+    const mazeApp = (window as any).mazeApp;
+    if (!file) return;
+    if (!mazeApp || typeof mazeApp.loadDocument !== 'function') {
+      console.warn('mazeApp.loadDocument not available');
+      return;
+    }
+
+    let result: MazeFileReadResult;
+    try {
+      result = readMazeFile(await file.text());
+    } catch (error) {
+      console.error('Failed to import maze file:', error);
+      this.showErrors([{ message: `Could not read "${file.name}"` }]);
+      this.draw();
+      return;
+    }
+    if (!result.valid || !result.document) {
+      this.showErrors(result.errors.map(message => ({ message })));
+      this.draw();
+      return;
+    }
+
+    mazeApp.loadDocument(result.document);
+    mazeApp.applySceneSettings?.(result.settings);
+    if (result.document.layers.length === 1) {
+      this.handleLoadCurrent();
+    } else {
+      this.showErrors([]);
+      this.draw();
+    }
+  }
+
+  /**
+   * Parse the text area: one layer goes into the editor, several straight into the scene
+   */
+  private handleTextLoad() {
+    const result = parseMazeText(this.textArea.value, { name: 'Text maze' });
+    if (!result.valid || !result.document) {
+      this.showErrors(result.errors.map(message => ({ message })));
+      this.draw();
+      return;
+    }
+
+    if (result.document.layers.length === 1) {
+      this.loadIntoEditor(result.document);
+      return;
+    }
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.loadDocument !== 'function') {
+      console.warn('mazeApp.loadDocument not available');
       return;
     }
-    const start = this.state.start
-      ? { row: this.state.rows - 1 - this.state.start.row, col: this.state.start.col }
-      : null;
-    const end = this.state.end
-      ? { row: this.state.rows - 1 - this.state.end.row, col: this.state.end.col }
-      : null;
-    mazeApp.updateMaze(mazeData, false, {
-      start,
-      end,
+    mazeApp.loadDocument(result.document);
+    this.showErrors([]);
+    this.draw();
+  }
+
+  /**
+   * Write the editor grid into the text area
+   */
+  private handleTextShow() {
+    this.textArea.value = serializeMazeText(
+      documentFromDisplayRows(this.state.grid, this.state.start, this.state.end)
+    );
+  }
+
+  /**
+   * Read an image file and preview it in the editor
+   */
+  private async handleImageOpen() {
+    const file = this.imageInput.files?.[0];
+    this.imageInput.value = '';
+    if (!file) return;
+
+    try {
+      const bitmap = await createImageBitmap(file);
+      // Big screenshots are scaled down, cells stay several pixels wide at this size
+      const scale = Math.min(1, 1024 / Math.max(bitmap.width, bitmap.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Failed to get 2D context for image import');
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+
+      this.image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      this.resampleImage();
+    } catch (error) {
+      console.error('Failed to import image:', error);
+      this.showErrors([{ message: `Could not read image "${file.name}"` }]);
+      this.draw();
+    }
+  }
+
+  /**
+   * Threshold the loaded image into an editor grid, at the detected size or the Rows/Cols inputs.
+   * Nothing reaches the scene until Apply.
+   */
+  private resampleImage() {
+    if (!this.image) return;
+    const threshold = this.clamp(this.thresholdInput.valueAsNumber || 0, 0, 255);
+    const mask = thresholdImage(this.image, threshold);
+    if (this.autoSizeInput.checked) {
+      const detected = detectGridSize(mask);
+      if (!detected) {
+        this.showErrors([{ message: 'Could not detect the cell size, set Rows/Cols by hand' }]);
+        this.draw();
+        return;
+      }
+      this.rowsInput.valueAsNumber = detected.rows;
+      this.colsInput.valueAsNumber = detected.cols;
+    }
+
+    const rows = this.clamp(this.rowsInput.valueAsNumber || 0, 5, 80);
+    const cols = this.clamp(this.colsInput.valueAsNumber || 0, 5, 80);
+    const resized = rows !== this.rowsInput.valueAsNumber || cols !== this.colsInput.valueAsNumber;
+    const grid = maskToDisplayRows(mask, { rows, cols });
+    this.loadIntoEditor(createMazeDocument([grid.reverse()], null, { name: 'Image maze' }));
+    if (resized) {
+      this.showErrors([{ message: 'Image grid is outside 5-80 cells and was resampled to fit' }]);
+      this.draw();
+    }
+  }
+
+  /**
+   * List validation errors under Apply and outline the cells they point at
+   */
+  private showErrors(errors: Pick<MazeValidationError, 'message' | 'row' | 'col'>[]) {
+    this.errorList.innerHTML = '';
+    errors.forEach(error => {
+      const item = document.createElement('li');
+      item.textContent = error.message;
+      this.errorList.appendChild(item);
     });
+
+    // Errors use maze rows, the editor draws them top-down
+    this.state.errorCells = errors
+      .filter(error => error.row !== undefined && error.col !== undefined)
+      .map(error => ({
+        row: this.state.rows - 1 - (error.row as number),
+        col: error.col as number,
+      }));
   }
 
   private handleMouseDown(e: MouseEvent) {
@@ -535,30 +816,3 @@ export function showMazePopup(toolbar: Toolbar): void {
     console.error('Failed to initialize maze popup:', error);
   }
 }
-
-function createNumberInput(label: string, min: number, max: number, value: number) {
-  const wrapper = document.createElement('label');
-  wrapper.className = 'maze-popup__input';
-
-  const span = document.createElement('span');
-  span.textContent = label;
-
-  const input = document.createElement('input');
-  input.type = 'number';
-  input.min = String(min);
-  input.max = String(max);
-  input.value = String(value);
-
-  wrapper.appendChild(span);
-  wrapper.appendChild(input);
-
-  return { wrapper, input };
-}
-
-function createButton(text: string, className: string) {
-  const btn = document.createElement('button');
-  btn.type = 'button';
-  btn.textContent = text;
-  btn.className = className;
-  return btn;
-}
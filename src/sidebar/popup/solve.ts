@@ -1,12 +1,485 @@
 import { Toolbar } from '../toolbar';
+import {
+  createButton,
+  createCheckbox,
+  createNumberInput,
+  createSelectInput,
+  downloadFile,
+  renderStatRows,
+} from './controls';
+import { SolveResult, listSolvers, solveMaze } from '../../solve';
+import {
+  BenchmarkRow,
+  benchmarkGenerators,
+  benchmarkSolvers,
+  benchmarkToCSV,
+  benchmarkToJSON,
+} from '../../benchmark';
+import { AgentResult, listAgents, runAgent } from '../../agent';
+import { SolverAnimator } from '../../app/SolverAnimator';
+import { AgentAnimator } from '../../app/AgentAnimator';
+import type { PlaybackState } from '../../app/PlaybackController';
+import type { MainApp } from '../../app/MainApp';
 
-export function showSolvePopup(toolbar: Toolbar) {
-  const popupContainer = toolbar.createPopupContainer('solvePopup', 'Solving Maze');
-  const popup = popupContainer.querySelector('canvas') as HTMLCanvasElement;
-  const ctx = popup.getContext('2d');
+class SolvePopup {
+  private toolbar: Toolbar;
+  private popupContainer: HTMLElement;
+  private solverSelect: HTMLSelectElement;
+  private agentSelect: HTMLSelectElement;
+  private stats: HTMLDivElement;
+  private agentStatus: HTMLDivElement;
+  private animateInput: HTMLInputElement;
+  private speedInput: HTMLInputElement;
+  private playbackStatus: HTMLDivElement;
+  private animator: SolverAnimator | AgentAnimator | null = null;
+  private allGeneratorsInput: HTMLInputElement;
+  private seedsInput: HTMLInputElement;
+  private benchmarkTable: HTMLDivElement;
+  private benchmarkRows: BenchmarkRow[] = [];
 
-  if (ctx) {
-    ctx.fillStyle = '#a0a0a0';
-    ctx.fillRect(0, 0, popup.width, popup.height);
+  private runBtn: HTMLButtonElement;
+  private walkBtn: HTMLButtonElement;
+  private clearBtn: HTMLButtonElement;
+  private playBtn: HTMLButtonElement;
+  private stepBtn: HTMLButtonElement;
+  private finishBtn: HTMLButtonElement;
+  private benchmarkBtn: HTMLButtonElement;
+  private csvBtn: HTMLButtonElement;
+  private jsonBtn: HTMLButtonElement;
+
+  constructor(toolbar: Toolbar) {
+    this.toolbar = toolbar;
+    this.popupContainer = this.toolbar.createPopupContainer('solvePopup', 'Solving Maze', {
+      canvas: false,
+    });
+    this.popupContainer.classList.add('maze-popup');
+
+    const ui = this.buildControls();
+    this.popupContainer.appendChild(ui.controls);
+    this.solverSelect = ui.solverSelect;
+    this.agentSelect = ui.agentSelect;
+    this.stats = ui.stats;
+    this.agentStatus = ui.agentStatus;
+    this.runBtn = ui.runBtn;
+    this.walkBtn = ui.walkBtn;
+    this.clearBtn = ui.clearBtn;
+    this.animateInput = ui.animateInput;
+    this.speedInput = ui.speedInput;
+    this.playbackStatus = ui.playbackStatus;
+    this.playBtn = ui.playBtn;
+    this.stepBtn = ui.stepBtn;
+    this.finishBtn = ui.finishBtn;
+    this.allGeneratorsInput = ui.allGeneratorsInput;
+    this.seedsInput = ui.seedsInput;
+    this.benchmarkTable = ui.benchmarkTable;
+    this.benchmarkBtn = ui.benchmarkBtn;
+    this.csvBtn = ui.csvBtn;
+    this.jsonBtn = ui.jsonBtn;
+
+    this.bindEvents();
+    this.renderStats(null);
+    this.updatePlaybackControls(null);
+    this.renderBenchmark([]);
+    this.toolbar.onPopupClose(this.popupContainer.id, () => this.stopAnimation());
+  }
+
+  private buildControls() {
+    const controls = document.createElement('div');
+    controls.className = 'maze-popup__controls';
+
+    const sectionTitle = document.createElement('div');
+    sectionTitle.className = 'maze-popup__section-title';
+    sectionTitle.textContent = 'Solver';
+    controls.appendChild(sectionTitle);
+
+    const solverSection = document.createElement('div');
+    solverSection.className = 'maze-popup__section';
+    const solver = createSelectInput(
+      'Type',
+      listSolvers().map(item => ({ value: item.id, label: item.name }))
+    );
+    solverSection.appendChild(solver.wrapper);
+
+    const actionSection = document.createElement('div');
+    actionSection.className = 'maze-popup__section';
+    const animateInput = createCheckbox('Animate', false);
+    const runBtn = createButton('Solve', 'maze-popup__btn maze-popup__btn--primary');
+    const clearBtn = createButton('Clear', 'maze-popup__btn');
+    actionSection.appendChild(animateInput.wrapper);
+    actionSection.appendChild(runBtn);
+    actionSection.appendChild(clearBtn);
+
+    const agentTitle = document.createElement('div');
+    agentTitle.className = 'maze-popup__section-title';
+    agentTitle.textContent = 'Agent';
+
+    const agentSection = document.createElement('div');
+    agentSection.className = 'maze-popup__section';
+    const agent = createSelectInput(
+      'Type',
+      listAgents().map(item => ({ value: item.id, label: item.name }))
+    );
+    const walkBtn = createButton('Walk', 'maze-popup__btn maze-popup__btn--primary');
+    agentSection.appendChild(agent.wrapper);
+    agentSection.appendChild(walkBtn);
+
+    const agentStatus = document.createElement('div');
+    agentStatus.className = 'maze-popup__status';
+
+    const playbackTitle = document.createElement('div');
+    playbackTitle.className = 'maze-popup__section-title';
+    playbackTitle.textContent = 'Playback';
+
+    const playbackSection = document.createElement('div');
+    playbackSection.className = 'maze-popup__section';
+    const playBtn = createButton('Play', 'maze-popup__btn');
+    const stepBtn = createButton('Step', 'maze-popup__btn');
+    const finishBtn = createButton('Finish', 'maze-popup__btn');
+    const speedInput = createNumberInput('Steps/s', 1, 2000, 30);
+    playbackSection.appendChild(playBtn);
+    playbackSection.appendChild(stepBtn);
+    playbackSection.appendChild(finishBtn);
+    playbackSection.appendChild(speedInput.wrapper);
+
+    const playbackStatus = document.createElement('div');
+    playbackStatus.className = 'maze-popup__status';
+
+    const statsTitle = document.createElement('div');
+    statsTitle.className = 'maze-popup__section-title';
+    statsTitle.textContent = 'Results';
+
+    const stats = document.createElement('div');
+    stats.className = 'maze-popup__stats';
+
+    const benchmarkTitle = document.createElement('div');
+    benchmarkTitle.className = 'maze-popup__section-title';
+    benchmarkTitle.textContent = 'Benchmark';
+
+    const benchmarkSection = document.createElement('div');
+    benchmarkSection.className = 'maze-popup__section';
+    const allGeneratorsInput = createCheckbox('All generators', false);
+    const seedsInput = createNumberInput('Seeds', 1, 50, 3);
+    const benchmarkBtn = createButton('Run', 'maze-popup__btn maze-popup__btn--primary');
+    const csvBtn = createButton('CSV', 'maze-popup__btn');
+    const jsonBtn = createButton('JSON', 'maze-popup__btn');
+    benchmarkSection.appendChild(allGeneratorsInput.wrapper);
+    benchmarkSection.appendChild(seedsInput.wrapper);
+    benchmarkSection.appendChild(benchmarkBtn);
+    benchmarkSection.appendChild(csvBtn);
+    benchmarkSection.appendChild(jsonBtn);
+
+    const benchmarkTable = document.createElement('div');
+    benchmarkTable.className = 'maze-popup__stats';
+
+    controls.appendChild(solverSection);
+    controls.appendChild(actionSection);
+    controls.appendChild(agentTitle);
+    controls.appendChild(agentSection);
+    controls.appendChild(agentStatus);
+    controls.appendChild(playbackTitle);
+    controls.appendChild(playbackSection);
+    controls.appendChild(playbackStatus);
+    controls.appendChild(statsTitle);
+    controls.appendChild(stats);
+    controls.appendChild(benchmarkTitle);
+    controls.appendChild(benchmarkSection);
+    controls.appendChild(benchmarkTable);
+
+    return {
+      controls,
+      solverSelect: solver.select,
+      agentSelect: agent.select,
+      stats,
+      agentStatus,
+      runBtn,
+      walkBtn,
+      clearBtn,
+      animateInput: animateInput.input,
+      speedInput: speedInput.input,
+      playbackStatus,
+      playBtn,
+      stepBtn,
+      finishBtn,
+      allGeneratorsInput: allGeneratorsInput.input,
+      seedsInput: seedsInput.input,
+      benchmarkTable,
+      benchmarkBtn,
+      csvBtn,
+      jsonBtn,
+    };
+  }
+
+  private bindEvents() {
+    this.runBtn.addEventListener('click', () => this.handleSolve());
+    this.clearBtn.addEventListener('click', () => this.handleClear());
+    this.walkBtn.addEventListener('click', () => this.handleWalk());
+    this.playBtn.addEventListener('click', () => this.animator?.toggle());
+    this.stepBtn.addEventListener('click', () => this.animator?.step());
+    this.finishBtn.addEventListener('click', () => this.animator?.finish());
+    this.speedInput.addEventListener('change', () => {
+      this.animator?.setSpeed(this.readSpeed());
+    });
+    this.benchmarkBtn.addEventListener('click', () => this.handleBenchmark());
+    this.csvBtn.addEventListener('click', () => {
+      downloadFile('maze-benchmark.csv', benchmarkToCSV(this.benchmarkRows), 'text/csv');
+    });
+    this.jsonBtn.addEventListener('click', () => {
+      downloadFile('maze-benchmark.json', benchmarkToJSON(this.benchmarkRows), 'application/json');
+    });
+  }
+
+  private handleSolve() {
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.getMazeData !== 'function') {
+      console.warn('mazeApp.getMazeData not available');
+      return;
+    }
+    const data = mazeApp.getMazeData();
+    const markers = typeof mazeApp.getMazeMarkers === 'function' ? mazeApp.getMazeMarkers() : null;
+    if (!Array.isArray(data) || data.length === 0) {
+      console.warn('No maze data available to solve');
+      return;
+    }
+
+    const animate = this.animateInput.checked;
+    this.stopAnimation();
+
+    try {
+      const result = solveMaze(this.solverSelect.value, data, markers, { trace: animate });
+      this.renderStats(this.solveStats(result));
+      if (animate) {
+        this.startAnimation(mazeApp, result);
+      } else if (result.found) {
+        mazeApp.showSolutionPath?.(result.path);
+      } else {
+        mazeApp.clearSolutionPath?.();
+      }
+    } catch (error) {
+      console.error('Failed to solve maze:', error);
+    }
+  }
+
+  /**
+   * Run an agent and walk its avatar through the scene
+   */
+  private handleWalk() {
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.getMazeData !== 'function') {
+      console.warn('mazeApp.getMazeData not available');
+      return;
+    }
+    if (typeof mazeApp.showAgent !== 'function') {
+      console.warn('mazeApp.showAgent not available');
+      return;
+    }
+    const data = mazeApp.getMazeData();
+    const markers = typeof mazeApp.getMazeMarkers === 'function' ? mazeApp.getMazeMarkers() : null;
+    if (!Array.isArray(data) || data.length === 0) {
+      console.warn('No maze data available to solve');
+      return;
+    }
+    if (data.length > 1) {
+      this.agentStatus.textContent =
+        'Agents walk a single layer and cannot use holes or stairs, use a solver instead';
+      return;
+    }
+    this.agentStatus.textContent = '';
+
+    this.stopAnimation();
+
+    try {
+      const result = runAgent(this.agentSelect.value, data, markers);
+      this.renderStats(this.agentStats(result));
+      const animator = new AgentAnimator(mazeApp, {
+        result,
+        stepsPerSecond: this.readSpeed(),
+        onStateChange: state => {
+          if (this.animator === animator) this.updatePlaybackControls(state);
+        },
+        onStale: () => this.handleStale(),
+      });
+      this.animator = animator;
+      this.updatePlaybackControls(animator.getState());
+      animator.play();
+    } catch (error) {
+      console.error('Failed to run maze agent:', error);
+    }
+  }
+
+  private handleClear() {
+    this.stopAnimation();
+    this.renderStats(null);
+    const mazeApp = (window as any).mazeApp;
+    mazeApp?.clearSolutionPath?.();
+    mazeApp?.clearCellTints?.();
+    mazeApp?.clearAgent?.();
+    mazeApp?.setPreviewOverlay?.(null);
+  }
+
+  /**
+   * Replay the solver trace in the scene and the preview
+   */
+  private startAnimation(mazeApp: MainApp, result: SolveResult) {
+    if (typeof mazeApp.setCellTint !== 'function') {
+      console.warn('mazeApp.setCellTint not available');
+      return;
+    }
+    const animator = new SolverAnimator(mazeApp, {
+      result,
+      stepsPerSecond: this.readSpeed(),
+      onStateChange: state => {
+        if (this.animator === animator) this.updatePlaybackControls(state);
+      },
+      onStale: () => this.handleStale(),
+    });
+    this.animator = animator;
+    this.updatePlaybackControls(animator.getState());
+    animator.play();
+  }
+
+  /**
+   * The animated maze was replaced, drop the animation and say why it stopped
+   */
+  private handleStale() {
+    this.stopAnimation();
+    this.playbackStatus.textContent = 'Playback stopped, another maze was loaded';
+  }
+
+  private stopAnimation() {
+    if (this.animator) {
+      this.animator.destroy();
+      this.animator = null;
+    }
+    this.updatePlaybackControls(null);
+  }
+
+  private readSpeed(): number {
+    return Math.max(1, Math.min(2000, this.speedInput.valueAsNumber || 30));
+  }
+
+  private updatePlaybackControls(state: PlaybackState | null) {
+    const done = !state || state.index >= state.total;
+    this.playBtn.disabled = done;
+    this.stepBtn.disabled = done;
+    this.finishBtn.disabled = done;
+    this.playBtn.textContent = state?.playing ? 'Pause' : 'Play';
+    this.playbackStatus.textContent = state ? `Step ${state.index} / ${state.total}` : '';
+  }
+
+  /**
+   * Compare every solver on the current maze, or on fresh mazes from every generator
+   */
+  private handleBenchmark() {
+    const mazeApp = (window as any).mazeApp;
+    if (!mazeApp || typeof mazeApp.getMazeData !== 'function') {
+      console.warn('mazeApp.getMazeData not available');
+      return;
+    }
+    const data = mazeApp.getMazeData();
+    if (!Array.isArray(data) || data.length === 0 || data[0].length === 0) {
+      console.warn('No maze data available to benchmark');
+      return;
+    }
+
+    try {
+      if (this.allGeneratorsInput.checked) {
+        const seeds = Math.max(1, Math.min(50, this.seedsInput.valueAsNumber || 1));
+        this.seedsInput.valueAsNumber = seeds;
+        this.renderBenchmark(
+          benchmarkGenerators({
+            rows: data[0].length,
+            cols: data[0][0].length,
+            layers: data.length,
+            seeds,
+            baseSeed: mazeApp.getMazeSeed?.() ?? undefined,
+          })
+        );
+      } else {
+        const markers =
+          typeof mazeApp.getMazeMarkers === 'function' ? mazeApp.getMazeMarkers() : null;
+        this.renderBenchmark(benchmarkSolvers(data, markers));
+      }
+    } catch (error) {
+      console.error('Failed to run benchmark:', error);
+    }
+  }
+
+  private renderBenchmark(rows: BenchmarkRow[]) {
+    this.benchmarkRows = rows;
+    this.csvBtn.disabled = rows.length === 0;
+    this.jsonBtn.disabled = rows.length === 0;
+    this.benchmarkTable.innerHTML = '';
+    if (rows.length === 0) {
+      this.benchmarkTable.textContent = 'No benchmark yet';
+      return;
+    }
+
+    const withGenerator = rows.some(row => row.generator !== null);
+    const headers = [
+      ...(withGenerator ? ['Generator', 'Seed'] : []),
+      'Solver',
+      'Path',
+      'Nodes',
+      'ms',
+    ];
+    const table = document.createElement('table');
+    table.className = 'maze-popup__table';
+    const head = table.createTHead().insertRow();
+    headers.forEach(header => {
+      const cell = document.createElement('th');
+      cell.textContent = header;
+      head.appendChild(cell);
+    });
+
+    const body = table.createTBody();
+    rows.forEach(row => {
+      const values = [
+        ...(withGenerator ? [row.generator ?? '', String(row.seed ?? '')] : []),
+        row.solver,
+        row.found ? String(row.pathLength) : '-',
+        String(row.nodesExpanded),
+        row.elapsedMs.toFixed(2),
+      ];
+      const tableRow = body.insertRow();
+      values.forEach(value => {
+        tableRow.insertCell().textContent = value;
+      });
+    });
+    this.benchmarkTable.appendChild(table);
+  }
+
+  private solveStats(result: SolveResult): [string, string][] {
+    return [
+      ['Status', result.found ? 'Solved' : 'No path'],
+      ['Path length', result.found ? String(result.path.length) : '-'],
+      ['Visited cells', String(result.visited.length)],
+      ['Nodes expanded', String(result.nodesExpanded)],
+      ['Time', `${result.elapsedMs.toFixed(2)} ms`],
+    ];
+  }
+
+  private agentStats(result: AgentResult): [string, string][] {
+    const status = result.found ? 'Solved' : result.looped ? 'Stuck in a loop' : 'No path';
+    return [
+      ['Status', status],
+      ['Path length', result.found ? String(result.path.length) : '-'],
+      ['Moves', String(Math.max(0, result.walk.length - 1))],
+      ['Time', `${result.elapsedMs.toFixed(2)} ms`],
+    ];
+  }
+
+  private renderStats(rows: [string, string][] | null) {
+    renderStatRows(this.stats, rows, 'No results yet');
+  }
+}
+
+/**
+ * Show solve popup - Run solvers on the current maze
+ */
+export function showSolvePopup(toolbar: Toolbar): void {
+  try {
+    new SolvePopup(toolbar);
+  } catch (error) {
+    console.error('Failed to initialize solve popup:', error);
   }
 }
@@ -3,6 +3,8 @@ import { showSettingsPopup } from './popup/setting';
 import { showTutorialPopup } from './popup/tutorial';
 import { showMazePopup } from './popup/maze';
 import { showGeneratePopup } from './popup/generate';
+import { showAnalysisPopup } from './popup/analysis';
+import { showExportPopup } from './popup/export';
 import './toolbar.css';
 
 interface ToolButton {
@@ -34,6 +36,7 @@ export class Toolbar {
   private touchStartHandler!: (e: TouchEvent) => void;
   private documentClickHandler!: (e: MouseEvent | TouchEvent) => void;
 
+  private closeHandlers: Map<string, () => void> = new Map();
   private imageCache: Map<string, HTMLImageElement> = new Map();
   private imagesLoaded: boolean = false;
 
@@ -104,6 +107,8 @@ export class Toolbar {
       '/MazeSolver3D/icon/maze.png',
       '/MazeSolver3D/icon/generate_maze.png',
       '/MazeSolver3D/icon/solving_maze.png',
+      '/MazeSolver3D/icon/idea.png',
+      '/MazeSolver3D/icon/export.svg',
       '/MazeSolver3D/icon/question.png',
       '/MazeSolver3D/icon/setting.png',
     ];
@@ -137,8 +142,26 @@ export class Toolbar {
         height: 0,
       },
       {
-        name: 'Tutorial',
+        name: 'Maze Analysis',
         icon: iconPaths[3],
+        action: () => this.togglePopup('analysis'),
+        x: 0,
+        y: 0,
+        width: 0,
+        height: 0,
+      },
+      {
+        name: 'Export Maze',
+        icon: iconPaths[4],
+        action: () => this.togglePopup('export'),
+        x: 0,
+        y: 0,
+        width: 0,
+        height: 0,
+      },
+      {
+        name: 'Tutorial',
+        icon: iconPaths[5],
         action: () => this.togglePopup('tutorial'),
         x: 0,
         y: 0,
@@ -147,7 +170,7 @@ export class Toolbar {
       },
       {
         name: 'Settings',
-        icon: iconPaths[4],
+        icon: iconPaths[6],
         action: () => this.togglePopup('settings'),
         x: 0,
         y: 0,
@@ -413,6 +436,12 @@ export class Toolbar {
       case 'generate':
         showGeneratePopup(this);
         break;
+      case 'analysis':
+        showAnalysisPopup(this);
+        break;
+      case 'export':
+        showExportPopup(this);
+        break;
       case 'tutorial':
         showTutorialPopup(this);
         break;
@@ -425,7 +454,14 @@ export class Toolbar {
     }
   }
 
-  public createPopupContainer(id: string, title: string): HTMLElement {
+  /**
+   * Popup shell with a title; `canvas: false` leaves out the drawing canvas for pure DOM panels
+   */
+  public createPopupContainer(
+    id: string,
+    title: string,
+    options: { canvas?: boolean } = {}
+  ): HTMLElement {
     const popupContainer = document.createElement('div');
     popupContainer.id = id;
     popupContainer.className = 'toolbar-popup';
@@ -433,10 +469,12 @@ export class Toolbar {
     popupContainer.style.setProperty('--toolbar-popup-left', this.isMobile ? '50%' : '238px');
     document.body.appendChild(popupContainer);
 
-    const popup = document.createElement('canvas');
-    popup.width = 370;
-    popup.height = 4000;
-    popupContainer.appendChild(popup);
+    if (options.canvas ?? true) {
+      const popup = document.createElement('canvas');
+      popup.width = 370;
+      popup.height = 4000;
+      popupContainer.appendChild(popup);
+    }
 
     const titleElement = document.createElement('h3');
     titleElement.className = 'toolbar-popup__title';
@@ -487,10 +525,24 @@ export class Toolbar {
     this.currentHideIcon = hideIcon;
   }
 
+  /**
+   * Run `handler` once when the popup is closed (removed), not when it is only hidden
+   */
+  public onPopupClose(id: string, handler: () => void): void {
+    this.closeHandlers.set(id, handler);
+  }
+
+  private notifyPopupClosed(id: string): void {
+    const handler = this.closeHandlers.get(id);
+    this.closeHandlers.delete(id);
+    handler?.();
+  }
+
   public closePopup(type: string): void {
     const popup = document.getElementById(`${type}Popup`);
     if (popup && popup.parentNode) {
       popup.parentNode.removeChild(popup);
+      this.notifyPopupClosed(popup.id);
     }
     if (this.currentCloseIcon && this.currentCloseIcon.parentNode) {
       this.currentCloseIcon.parentNode.removeChild(this.currentCloseIcon);
@@ -509,6 +561,7 @@ export class Toolbar {
   private closeCurrentPopup(): void {
     if (this.currentPopup && this.currentPopup.parentNode) {
       this.currentPopup.parentNode.removeChild(this.currentPopup);
+      this.notifyPopupClosed(this.currentPopup.id);
       this.currentPopup = null;
     }
     if (this.currentCloseIcon && this.currentCloseIcon.parentNode) {
@@ -0,0 +1,345 @@
+import type { MarkerCell, MazeMarkers } from './maze/markerUtils';
+import { CellType } from './maze/MazeDocument';
+import { NEIGHBOUR_OFFSETS, isOpenCell } from './maze/cellUtils';
+
+export type SolverId = 'bfs' | 'dfs' | 'dijkstra' | 'astar';
+
+/**
+ * Grid cell with its layer resolved
+ */
+export interface SolveCell {
+  row: number;
+  col: number;
+  layer: number;
+}
+
+/**
+ * One expansion: the settled cell and the cells it pushed onto the frontier
+ */
+export interface SolveTraceStep {
+  cell: SolveCell;
+  discovered: SolveCell[];
+}
+
+export interface SolveResult {
+  solver: SolverId;
+  found: boolean;
+  path: SolveCell[];
+  visited: SolveCell[];
+  nodesExpanded: number;
+  elapsedMs: number;
+  trace?: SolveTraceStep[];
+}
+
+export interface SolveOptions {
+  /** Search a single layer only; by default holes drop to the layer below and stairs climb up */
+  layer?: number;
+  trace?: boolean;
+}
+
+/**
+ * Common contract for every grid search algorithm
+ */
+export interface MazeSolver {
+  id: SolverId;
+  name: string;
+  solve(data: number[][][], markers: MazeMarkers | null, options?: SolveOptions): SolveResult;
+}
+
+type Frontier = {
+  push(index: number, priority: number): void;
+  pop(): number | undefined;
+  readonly size: number;
+};
+
+/**
+ * MinHeap - binary heap keyed by priority, ties broken by insertion order
+ */
+class MinHeap implements Frontier {
+  private items: { index: number; priority: number; order: number }[] = [];
+  private counter: number = 0;
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(index: number, priority: number): void {
+    this.items.push({ index, priority, order: this.counter++ });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(i, parent)) break;
+      [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.less(left, smallest)) smallest = left;
+        if (right < this.items.length && this.less(right, smallest)) smallest = right;
+        if (smallest === i) break;
+        [this.items[i], this.items[smallest]] = [this.items[smallest], this.items[i]];
+        i = smallest;
+      }
+    }
+    return top.index;
+  }
+
+  private less(a: number, b: number): boolean {
+    const itemA = this.items[a];
+    const itemB = this.items[b];
+    return (
+      itemA.priority < itemB.priority ||
+      (itemA.priority === itemB.priority && itemA.order < itemB.order)
+    );
+  }
+}
+
+class Queue implements Frontier {
+  private items: number[] = [];
+  private head: number = 0;
+
+  get size(): number {
+    return this.items.length - this.head;
+  }
+
+  push(index: number): void {
+    this.items.push(index);
+  }
+
+  pop(): number | undefined {
+    return this.head < this.items.length ? this.items[this.head++] : undefined;
+  }
+}
+
+class Stack implements Frontier {
+  private items: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(index: number): void {
+    this.items.push(index);
+  }
+
+  pop(): number | undefined {
+    return this.items.pop();
+  }
+}
+
+function cellAt(data: number[][][], cell: SolveCell): number | undefined {
+  return data[cell.layer]?.[cell.row]?.[cell.col];
+}
+
+function isOpen(data: number[][][], cell: SolveCell): boolean {
+  return isOpenCell(data[cell.layer], cell.row, cell.col);
+}
+
+/**
+ * Open cells reachable in one move: the four in-layer neighbours, plus the
+ * layer below through a hole and the layer above through stairs. Holes are
+ * one-way drops; stairs also lead back down onto the staircase below.
+ */
+function neighbours(
+  data: number[][][],
+  cell: SolveCell,
+  minLayer: number,
+  maxLayer: number
+): SolveCell[] {
+  const result: SolveCell[] = [];
+  for (const [dr, dc] of NEIGHBOUR_OFFSETS) {
+    const next = { row: cell.row + dr, col: cell.col + dc, layer: cell.layer };
+    if (isOpen(data, next)) result.push(next);
+  }
+
+  const value = cellAt(data, cell);
+  if (cell.layer > minLayer) {
+    const below = { ...cell, layer: cell.layer - 1 };
+    if (
+      (value === CellType.Hole && isOpen(data, below)) ||
+      cellAt(data, below) === CellType.Stairs
+    ) {
+      result.push(below);
+    }
+  }
+  if (cell.layer < maxLayer) {
+    const above = { ...cell, layer: cell.layer + 1 };
+    // Stairs are the only way up, nobody climbs back out of a hole
+    if (value === CellType.Stairs && isOpen(data, above)) {
+      result.push(above);
+    }
+  }
+  return result;
+}
+
+/**
+ * Shared graph search; the frontier type and priority decide the algorithm.
+ * Cells are settled when popped, so visited is the expansion order.
+ * Without cost relaxation (DFS) the most recent discovery wins instead.
+ */
+function search(
+  solver: SolverId,
+  data: number[][][],
+  markers: MazeMarkers | null,
+  options: SolveOptions,
+  createFrontier: () => Frontier,
+  heuristic: (cell: SolveCell, end: SolveCell) => number,
+  relaxCosts: boolean = true
+): SolveResult {
+  const startTime = performance.now();
+  const result: SolveResult = {
+    solver,
+    found: false,
+    path: [],
+    visited: [],
+    nodesExpanded: 0,
+    elapsedMs: 0,
+  };
+
+  const resolve = (cell: MarkerCell | null | undefined): SolveCell | null =>
+    cell ? { row: cell.row, col: cell.col, layer: options.layer ?? cell.layer ?? 0 } : null;
+  const start = resolve(markers?.start);
+  const end = resolve(markers?.end);
+  if (data.length === 0 || !start || !end || !isOpen(data, start) || !isOpen(data, end)) {
+    result.elapsedMs = performance.now() - startTime;
+    return result;
+  }
+
+  const minLayer = options.layer ?? 0;
+  const maxLayer = options.layer ?? data.length - 1;
+  const rows = Math.max(...data.map(layer => layer.length));
+  const cols = Math.max(...data.map(layer => layer[0]?.length ?? 0));
+  const toIndex = (cell: SolveCell) => (cell.layer * rows + cell.row) * cols + cell.col;
+  const toCell = (index: number): SolveCell => ({
+    row: Math.floor(index / cols) % rows,
+    col: index % cols,
+    layer: Math.floor(index / (rows * cols)),
+  });
+
+  const total = data.length * rows * cols;
+  const cost = new Float64Array(total).fill(Infinity);
+  const parent = new Int32Array(total).fill(-1);
+  const settled = new Uint8Array(total);
+  const frontier = createFrontier();
+
+  const trace: SolveTraceStep[] | null = options.trace ? [] : null;
+  const startIndex = toIndex(start);
+  const endIndex = toIndex(end);
+  cost[startIndex] = 0;
+  frontier.push(startIndex, heuristic(start, end));
+
+  while (frontier.size > 0) {
+    const current = frontier.pop() as number;
+    if (settled[current]) continue;
+    settled[current] = 1;
+
+    const cell = toCell(current);
+    result.visited.push(cell);
+    let traceStep: SolveTraceStep | null = null;
+    if (trace) {
+      traceStep = { cell, discovered: [] };
+      trace.push(traceStep);
+    }
+
+    if (current === endIndex) {
+      result.found = true;
+      break;
+    }
+
+    for (const nextCell of neighbours(data, cell, minLayer, maxLayer)) {
+      const next = toIndex(nextCell);
+      if (settled[next]) continue;
+
+      const nextCost = cost[current] + 1;
+      if (relaxCosts && nextCost >= cost[next]) continue;
+      cost[next] = nextCost;
+      parent[next] = current;
+      frontier.push(next, nextCost + heuristic(nextCell, end));
+      traceStep?.discovered.push(nextCell);
+    }
+  }
+
+  if (result.found) {
+    for (let index = endIndex; index !== -1; index = parent[index]) {
+      result.path.push(toCell(index));
+    }
+    result.path.reverse();
+  }
+
+  if (trace) result.trace = trace;
+  result.nodesExpanded = result.visited.length;
+  result.elapsedMs = performance.now() - startTime;
+  return result;
+}
+
+const noHeuristic = () => 0;
+const manhattan = (cell: SolveCell, end: SolveCell) =>
+  Math.abs(cell.row - end.row) + Math.abs(cell.col - end.col) + Math.abs(cell.layer - end.layer);
+
+const SOLVERS: MazeSolver[] = [
+  {
+    id: 'bfs',
+    name: 'Breadth-First Search',
+    solve: (data, markers, options = {}) =>
+      search('bfs', data, markers, options, () => new Queue(), noHeuristic),
+  },
+  {
+    id: 'dfs',
+    name: 'Depth-First Search',
+    solve: (data, markers, options = {}) =>
+      search('dfs', data, markers, options, () => new Stack(), noHeuristic, false),
+  },
+  {
+    id: 'dijkstra',
+    name: "Dijkstra's Algorithm",
+    solve: (data, markers, options = {}) =>
+      search('dijkstra', data, markers, options, () => new MinHeap(), noHeuristic),
+  },
+  {
+    id: 'astar',
+    name: 'A* (Manhattan)',
+    solve: (data, markers, options = {}) =>
+      search('astar', data, markers, options, () => new MinHeap(), manhattan),
+  },
+];
+
+/**
+ * List all registered solvers in display order
+ */
+export function listSolvers(): readonly MazeSolver[] {
+  return SOLVERS;
+}
+
+/**
+ * Find a solver by id
+ */
+export function getSolver(id: string): MazeSolver | null {
+  return SOLVERS.find(solver => solver.id === id) ?? null;
+}
+
+/**
+ * Run a solver by id
+ */
+export function solveMaze(
+  id: string,
+  data: number[][][],
+  markers: MazeMarkers | null,
+  options: SolveOptions = {}
+): SolveResult {
+  const solver = getSolver(id);
+  if (!solver) {
+    throw new Error(`Unknown maze solver "${id}"`);
+  }
+  return solver.solve(data, markers, options);
+}